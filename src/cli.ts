@@ -0,0 +1,151 @@
+/// <reference types="node" />
+/**
+ * Command-line front end for grading and regression scripts; needs no browser.
+ *
+ *   npm run build:cli
+ *   node dist-cli/cli.js <circuit.json> [--table] [--format text|csv|markdown] [--eval A=1,B=0 ...] [--test vectors.txt]
+ *
+ *   --table        print the truth table (the default when nothing else is asked)
+ *   --format       truth table as text (default), csv or markdown
+ *   --eval         evaluate one input assignment; may be given several times
+ *   --test         check against a test-vector file (see parseTestVectors)
+ *
+ * Exit status: 0 on success, 1 when a test vector fails, 2 on bad usage or input files.
+ */
+import { readFileSync } from 'node:fs';
+import { Circuit, CycleDetectedError, OscillationError } from './core/engine';
+import { CircuitFormatError } from './core/serialization';
+import { TruthTable, TruthTableSizeError } from './core/truthtable';
+import { parseTestVectors, Testbench, TestVectorError, type VectorValue } from './core/testbench';
+import type { Logic } from './core/logic';
+
+const USAGE = 'Usage: node dist-cli/cli.js <circuit.json> [--table] [--format text|csv|markdown] [--eval A=1,B=0 ...] [--test vectors.txt]';
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/** Columns padded to their header, "inputs | outputs", as in a test-vector file. */
+function formatRow(inputs: string[], outputs: string[], widths: { inputs: number[], outputs: number[] }): string {
+    const pad = (values: string[], w: number[]) => values.map((v, i) => v.padEnd(w[i])).join(' ');
+    return `${pad(inputs, widths.inputs)} | ${pad(outputs, widths.outputs)}`.trimEnd();
+}
+
+function printTruthTable(circuit: Circuit, format: string) {
+    const table = new TruthTable(circuit);
+    if (table.outputs.length === 0) throw new UsageError('the circuit has no outputs to tabulate.');
+    if (format === 'csv' || format === 'markdown') {
+        // Written a page at a time; a whole large table does not fit in one string
+        let page: string[] = [];
+        for (const line of format === 'csv' ? table.csvLines() : table.markdownLines()) {
+            page.push(line);
+            if (page.length < 1024) continue;
+            console.log(page.join('\n'));
+            page = [];
+        }
+        if (page.length > 0) console.log(page.join('\n'));
+        return;
+    }
+
+    const widths = { inputs: table.inputLabels.map(l => l.length), outputs: table.outputLabels.map(l => l.length) };
+    console.log(formatRow(table.inputLabels, table.outputLabels, widths));
+    const page = 1024;
+    for (let start = 0; start < table.rowCount; start += page) {
+        table.rows(start, page).forEach(row => console.log(formatRow(
+            row.inputs.map(v => v ? '1' : '0'),
+            row.outputs.map(v => v === 'X' ? 'X' : v ? '1' : '0'),
+            widths)));
+    }
+}
+
+/** "A=1,B=0" (or "A=1 B=0") as an assignment. */
+function parseAssignment(text: string): Record<string, boolean> {
+    const assignment: Record<string, boolean> = {};
+    text.split(/[\s,]+/).filter(p => p !== '').forEach(part => {
+        const match = /^([^=]+)=([01])$/.exec(part);
+        if (!match) throw new UsageError(`"${part}" is not an assignment like A=1.`);
+        assignment[match[1]] = match[2] === '1';
+    });
+    return assignment;
+}
+
+function runTests(circuit: Circuit, file: string): boolean {
+    const tests = parseTestVectors(readFileSync(file, 'utf8'));
+    const result = Testbench.run(circuit, tests);
+    if (result.failures.length === 0) {
+        console.log(`PASS ${result.checked} vector${result.checked === 1 ? '' : 's'}`);
+        return true;
+    }
+
+    console.log(`FAIL ${result.failures.length} of ${result.checked} vectors`);
+    const show = (v: VectorValue | Logic) => v === null ? '-' : v === true ? '1' : v === false ? '0' : v;
+    const prefix = (sign: string, line: number) => `${sign} line ${line}`.padEnd(12);
+    const widths = { inputs: tests.inputs.map(l => l.length), outputs: tests.outputs.map(l => l.length) };
+
+    console.log(' '.repeat(12) + formatRow(tests.inputs, tests.outputs, widths));
+    result.failures.forEach(f => {
+        const inputs = tests.inputs.map(l => show(f.inputs[l]));
+        console.log(prefix('-', f.line) + formatRow(inputs, tests.outputs.map(l => show(f.expected[l])), widths));
+        console.log(prefix('+', f.line) + formatRow(inputs, tests.outputs.map(l => show(f.actual[l])), widths));
+    });
+    return false;
+}
+
+function main(args: string[]): number {
+    let file: string | null = null;
+    let table = false;
+    let tableFormat = 'text';
+    const evaluations: string[] = [];
+    const testFiles: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) throw new UsageError(`${arg} needs a value.`);
+            return args[++i];
+        };
+        if (arg === '--table') table = true;
+        else if (arg === '--format') {
+            tableFormat = value();
+            if (!['text', 'csv', 'markdown'].includes(tableFormat)) throw new UsageError(`unknown table format ${tableFormat}; use text, csv or markdown.`);
+        }
+        else if (arg === '--eval') evaluations.push(value());
+        else if (arg === '--test') testFiles.push(value());
+        else if (arg === '--help' || arg === '-h') { console.log(USAGE); return 0; }
+        else if (arg.startsWith('-')) throw new UsageError(`unknown option ${arg}.`);
+        else if (file === null) file = arg;
+        else throw new UsageError(`only one circuit file can be given (also got ${arg}).`);
+    }
+    if (file === null) throw new UsageError('no circuit file given.');
+
+    const circuit = Circuit.fromJSON(readFileSync(file, 'utf8'));
+    if (table || (evaluations.length === 0 && testFiles.length === 0)) printTruthTable(circuit, tableFormat);
+
+    evaluations.forEach(text => {
+        const assignment = parseAssignment(text);
+        const outputs = Testbench.evaluate(circuit, assignment);
+        const format = (values: Record<string, string>) => Object.entries(values).map(([k, v]) => `${k}=${v}`).join(' ');
+        console.log(`${format(Object.fromEntries(Object.entries(assignment).map(([k, v]) => [k, v ? '1' : '0'])))} -> ${format(outputs)}`);
+    });
+
+    let passed = true;
+    testFiles.forEach(test => { passed = runTests(circuit, test) && passed; });
+    return passed ? 0 : 1;
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+    if (e instanceof UsageError) {
+        console.error(`Error: ${e.message}\n${USAGE}`);
+    } else if (e instanceof CircuitFormatError || e instanceof TestVectorError || e instanceof CycleDetectedError || e instanceof OscillationError || e instanceof TruthTableSizeError) {
+        console.error(`Error: ${e.message}`);
+    } else if (e instanceof Error && 'code' in e && e.code === 'ENOENT') {
+        console.error(`Error: ${e.message}`);
+    } else {
+        throw e;
+    }
+    process.exitCode = 2;
+}
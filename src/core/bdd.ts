@@ -0,0 +1,109 @@
+/** Thrown when a function needs more BDD nodes than the manager allows. */
+export class BddLimitError extends Error {
+    constructor(limit: number) {
+        super(`The decision diagram grew past ${limit} nodes; the circuit is too large to check this way.`);
+    }
+}
+
+/**
+ * Reduced ordered binary decision diagrams.
+ * Functions are node numbers in one shared table; nodes are hash-consed, so two
+ * functions are equal exactly when their numbers are equal. Variables are ordered by
+ * index (0 at the top).
+ */
+export class Bdd {
+    static FALSE = 0;
+    static TRUE = 1;
+
+    /** Variable, low child and high child of each node; terminals use variable Infinity */
+    private variables: number[] = [Infinity, Infinity];
+    private lows: number[] = [0, 1];
+    private highs: number[] = [0, 1];
+    private unique = new Map<string, number>();
+    private iteCache = new Map<string, number>();
+    private limit: number;
+
+    constructor(limit: number = 1_000_000) {
+        this.limit = limit;
+    }
+
+    get size(): number {
+        return this.variables.length;
+    }
+
+    variable(index: number): number {
+        return this.make(index, Bdd.FALSE, Bdd.TRUE);
+    }
+
+    constant(value: boolean): number {
+        return value ? Bdd.TRUE : Bdd.FALSE;
+    }
+
+    not(f: number): number {
+        return this.ite(f, Bdd.FALSE, Bdd.TRUE);
+    }
+
+    and(f: number, g: number): number {
+        return this.ite(f, g, Bdd.FALSE);
+    }
+
+    or(f: number, g: number): number {
+        return this.ite(f, Bdd.TRUE, g);
+    }
+
+    xor(f: number, g: number): number {
+        return this.ite(f, this.not(g), g);
+    }
+
+    /** If-then-else: (f & g) | (!f & h), the one operation the others are built from. */
+    ite(f: number, g: number, h: number): number {
+        if (f === Bdd.TRUE) return g;
+        if (f === Bdd.FALSE) return h;
+        if (g === h) return g;
+        if (g === Bdd.TRUE && h === Bdd.FALSE) return f;
+
+        const key = `${f},${g},${h}`;
+        const cached = this.iteCache.get(key);
+        if (cached !== undefined) return cached;
+
+        const top = Math.min(this.variables[f], this.variables[g], this.variables[h]);
+        const low = (n: number) => this.variables[n] === top ? this.lows[n] : n;
+        const high = (n: number) => this.variables[n] === top ? this.highs[n] : n;
+        const result = this.make(top,
+            this.ite(low(f), low(g), low(h)),
+            this.ite(high(f), high(g), high(h)));
+        this.iteCache.set(key, result);
+        return result;
+    }
+
+    /**
+     * A variable assignment making f true, or null when f is unsatisfiable.
+     * Variables the path does not test are left out; any value works for them.
+     */
+    satisfy(f: number): Map<number, boolean> | null {
+        if (f === Bdd.FALSE) return null;
+        const assignment = new Map<number, boolean>();
+        while (f !== Bdd.TRUE) {
+            // Every non-terminal node has a path to TRUE, so take any child other than FALSE
+            const goHigh = this.lows[f] === Bdd.FALSE;
+            assignment.set(this.variables[f], goHigh);
+            f = goHigh ? this.highs[f] : this.lows[f];
+        }
+        return assignment;
+    }
+
+    private make(variable: number, low: number, high: number): number {
+        if (low === high) return low;
+        const key = `${variable},${low},${high}`;
+        const existing = this.unique.get(key);
+        if (existing !== undefined) return existing;
+
+        if (this.variables.length >= this.limit) throw new BddLimitError(this.limit);
+        const node = this.variables.length;
+        this.variables.push(variable);
+        this.lows.push(low);
+        this.highs.push(high);
+        this.unique.set(key, node);
+        return node;
+    }
+}
@@ -0,0 +1,134 @@
+import { Circuit } from './engine';
+import type { Expr } from './expression';
+import { NetlistBuilder, NetlistParseError, type SourcePosition } from './netlist';
+
+interface Word extends SourcePosition {
+    text: string;
+}
+
+/** Why a directive outside the combinational subset is rejected. */
+const UNSUPPORTED: Record<string, string> = {
+    '.latch': 'latches (.latch) are not supported; only combinational logic can be imported.',
+    '.mlatch': 'latches (.mlatch) are not supported; only combinational logic can be imported.',
+    '.subckt': 'subcircuits (.subckt) are not supported; flatten the model first.',
+    '.search': 'including other files (.search) is not supported; flatten the model first.',
+    '.gate': 'library gates (.gate) are not supported; write the logic as .names tables.',
+    '.exdc': "external don't-care networks (.exdc) are not supported.",
+    '.clock': 'clocks (.clock) are not supported; only combinational logic can be imported.'
+};
+
+/** Lines with comments removed and "\" continuations joined, split into words with their positions. */
+function splitLines(source: string): Word[][] {
+    const lines: Word[][] = [];
+    let current: Word[] = [];
+    source.split(/\r?\n/).forEach((text, index) => {
+        const hash = text.indexOf('#');
+        if (hash >= 0) text = text.slice(0, hash);
+        const continued = /\\\s*$/.test(text);
+        if (continued) text = text.replace(/\\\s*$/, '');
+
+        for (const match of text.matchAll(/\S+/g)) {
+            current.push({ text: match[0], line: index + 1, column: match.index + 1 });
+        }
+        if (!continued && current.length > 0) {
+            lines.push(current);
+            current = [];
+        }
+    });
+    if (current.length > 0) lines.push(current);
+    return lines;
+}
+
+/**
+ * Reads a combinational BLIF model (Berkeley Logic Interchange Format): .model,
+ * .inputs, .outputs and .names single-output covers, whose rows list input cubes
+ * (0, 1 or - per input) with the output value; a cover of 0-rows describes the
+ * complement. A .names with no rows is constant 0.
+ */
+export class BlifImporter {
+    static toCircuit(source: string): Circuit {
+        const lines = splitLines(source);
+        const netlist = new NetlistBuilder();
+        const fail = (word: SourcePosition, message: string): never => {
+            throw new NetlistParseError(message, word.line, word.column);
+        };
+
+        let model: Word | null = null;
+        let i = 0;
+        while (i < lines.length) {
+            const [directive, ...args] = lines[i++];
+            switch (directive.text) {
+                case '.model':
+                    if (model) fail(directive, `only one model per file is supported (the first is on line ${model.line}).`);
+                    model = directive;
+                    break;
+                case '.inputs':
+                    args.forEach(w => netlist.input(w.text, w));
+                    break;
+                case '.outputs':
+                    args.forEach(w => netlist.output(w.text, w));
+                    break;
+                case '.names': {
+                    if (args.length === 0) fail(directive, '.names needs at least an output net.');
+                    const inputs = args.slice(0, -1);
+                    const output = args[args.length - 1];
+
+                    const rows: { cube: string, row: Word }[] = [];
+                    let polarity: { value: string, row: Word } | null = null;
+                    while (i < lines.length && !lines[i][0].text.startsWith('.')) {
+                        const row = lines[i++];
+                        const expected = inputs.length === 0 ? 1 : 2;
+                        if (row.length !== expected) {
+                            fail(row[0], inputs.length === 0
+                                ? 'a row of a constant .names is just its output value (0 or 1).'
+                                : `a row needs an input cube and an output value, separated by a space.`);
+                        }
+                        const cube = inputs.length === 0 ? '' : row[0].text;
+                        const value = row[row.length - 1];
+                        if (cube.length !== inputs.length || !/^[01-]*$/.test(cube)) {
+                            fail(row[0], `the input cube "${cube}" must have one of 0, 1 or - for each of the ${inputs.length} inputs.`);
+                        }
+                        if (value.text !== '0' && value.text !== '1') fail(value, `the output value must be 0 or 1, not "${value.text}".`);
+                        if (polarity && polarity.value !== value.text) {
+                            fail(value, `this cover mixes 1-rows and 0-rows (line ${polarity.row.line} has ${polarity.value}).`);
+                        }
+                        polarity ??= { value: value.text, row: value };
+                        rows.push({ cube, row: row[0] });
+                    }
+
+                    // Sum of products over the rows; each row is the product of its literals
+                    const products: Expr[] = rows.map(({ cube }) => {
+                        const literals: Expr[] = [];
+                        Array.from(cube).forEach((c, k) => {
+                            if (c === '-') return;
+                            const v: Expr = { kind: 'var', name: inputs[k].text };
+                            literals.push(c === '1' ? v : { kind: 'not', operand: v });
+                        });
+                        return literals.length === 0 ? { kind: 'const', value: true }
+                            : literals.length === 1 ? literals[0] : { kind: 'and', operands: literals };
+                    });
+                    let expr: Expr = products.some(p => p.kind === 'const') ? { kind: 'const', value: true }
+                        : products.length === 0 ? { kind: 'const', value: false }
+                        : products.length === 1 ? products[0] : { kind: 'or', operands: products };
+                    if (polarity?.value === '0') {
+                        expr = expr.kind === 'const' ? { kind: 'const', value: !expr.value } : { kind: 'not', operand: expr };
+                    }
+                    netlist.expression(expr, output, output.text);
+                    break;
+                }
+                case '.end':
+                    if (i < lines.length) {
+                        const extra = lines[i][0];
+                        fail(extra, extra.text === '.model' ? 'only one model per file is supported.' : `unexpected "${extra.text}" after .end.`);
+                    }
+                    break;
+                default:
+                    if (UNSUPPORTED[directive.text]) fail(directive, UNSUPPORTED[directive.text]);
+                    if (directive.text.startsWith('.')) fail(directive, `the directive "${directive.text}" is not supported.`);
+                    fail(directive, `"${directive.text}" is not part of a .names table; a cover row must follow a .names line.`);
+            }
+        }
+
+        return netlist.build();
+    }
+}
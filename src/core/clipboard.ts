@@ -0,0 +1,71 @@
+import { Circuit, ComponentNode, type CircuitNode } from './engine';
+import type { CircuitDocument } from './serialization';
+
+/** Copying parts of a circuit and pasting them back as fresh nodes. */
+export class Clipboard {
+    /**
+     * Document holding the given top-level nodes (with their subtrees) and the wires
+     * between them; wires leaving the set are dropped.
+     */
+    static copy(circuit: Circuit, nodes: CircuitNode[]): CircuitDocument {
+        const keep = new Set<string>();
+        nodes.forEach(n => {
+            keep.add(n.id);
+            if (n instanceof ComponentNode) n.descendants().forEach(d => keep.add(d.id));
+        });
+
+        const doc = circuit.toJSON();
+        doc.nodes = doc.nodes.filter(n => keep.has(n.id));
+        doc.connections = doc.connections.filter(c => keep.has(c.from) && keep.has(c.to));
+        delete doc.mode;
+        delete doc.logic;
+        delete doc.delays;
+        return doc;
+    }
+
+    /**
+     * Builds new nodes from a copied document: every top-level node gets an id from `newId`
+     * (nested ids keep their suffix under the new instance id) and is shifted by the offset.
+     * @returns The new top-level nodes, already wired to each other
+     */
+    static paste(doc: CircuitDocument, newId: () => string, dx: number, dy: number): CircuitNode[] {
+        const byId = new Map(doc.nodes.map(n => [n.id, n]));
+        const topOf = (id: string): string => {
+            let parent = byId.get(id)?.parent;
+            while (parent !== undefined && byId.has(parent)) {
+                id = parent;
+                parent = byId.get(id)?.parent;
+            }
+            return id;
+        };
+
+        const fresh = new Map<string, string>();
+        doc.nodes.filter(n => n.parent === undefined).forEach(n => fresh.set(n.id, newId()));
+        const rename = (id: string): string => {
+            const top = topOf(id);
+            if (id === top) return fresh.get(top)!;
+            const suffix = id.startsWith(`${top}/`) ? id.slice(top.length + 1) : id;
+            return `${fresh.get(top)}/${suffix}`;
+        };
+
+        const copy = Circuit.fromJSON({
+            ...doc,
+            nodes: doc.nodes.map(n => ({
+                ...n,
+                id: rename(n.id),
+                x: n.parent === undefined ? n.x + dx : n.x,
+                y: n.parent === undefined ? n.y + dy : n.y,
+                parent: n.parent === undefined ? undefined : rename(n.parent),
+                inputPins: n.inputPins?.map(rename),
+                outputPins: n.outputPins?.map(rename)
+            })),
+            connections: doc.connections.map(c => ({
+                ...c,
+                from: rename(c.from),
+                to: rename(c.to),
+                bends: c.bends?.map(b => ({ x: b.x + dx, y: b.y + dy }))
+            }))
+        });
+        return Array.from(copy.nodes.values()).filter(n => !n.parent);
+    }
+}
@@ -0,0 +1,103 @@
+import { Circuit, ComponentNode, type CircuitNode } from './engine';
+import type { CircuitDocument, ComponentDocument, NodeDocument } from './serialization';
+import { Clipboard } from './clipboard';
+
+export class ComponentError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Named, reusable subcircuits.
+ * A definition is a plain circuit document; its top-level INPUT and OUTPUT nodes become
+ * the component's pins, ordered top to bottom.
+ */
+export class ComponentLibrary {
+    private definitions: Map<string, ComponentDocument> = new Map();
+
+    add(definition: ComponentDocument) {
+        this.definitions.set(definition.name, definition);
+    }
+
+    get(name: string): ComponentDocument | undefined {
+        return this.definitions.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    list(): ComponentDocument[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /** Definitions referenced by instances in the circuit (to embed them in saved files). */
+    usedBy(circuit: Circuit): ComponentDocument[] {
+        const names = new Set<string>();
+        circuit.nodes.forEach(n => {
+            if (n instanceof ComponentNode && !n.parent) names.add(n.component);
+        });
+        return Array.from(names)
+            .map(name => this.definitions.get(name))
+            .filter((d): d is ComponentDocument => d !== undefined);
+    }
+
+    /**
+     * Packages a circuit (or part of one) as a component definition.
+     * @param nodes Restrict the component to these top-level nodes; wires leaving the set are dropped.
+     */
+    static createDefinition(name: string, circuit: Circuit, nodes?: CircuitNode[]): ComponentDocument {
+        if (!name.trim()) throw new ComponentError('A component needs a name.');
+
+        const doc = nodes ? Clipboard.copy(circuit, nodes) : circuit.toJSON();
+
+        const top = doc.nodes.filter(n => n.parent === undefined);
+        if (!top.some(n => n.type === 'OUTPUT')) {
+            throw new ComponentError('A component needs at least one Output (LED) to act as its output pin.');
+        }
+
+        delete doc.mode;
+        return { name: name.trim(), circuit: doc };
+    }
+
+    /**
+     * Creates a placeable instance of a definition.
+     * Inner node ids are prefixed with the instance id so several instances can coexist.
+     */
+    static instantiate(definition: ComponentDocument, id: string, x: number, y: number): ComponentNode {
+        const inner = definition.circuit;
+        const scoped = (innerId: string) => `${id}/${innerId}`;
+
+        const byPosition = (a: NodeDocument, b: NodeDocument) => a.y - b.y || a.x - b.x;
+        const top = inner.nodes.filter(n => n.parent === undefined);
+        const inputs = top.filter(n => n.type === 'INPUT').sort(byPosition);
+        const outputs = top.filter(n => n.type === 'OUTPUT').sort(byPosition);
+
+        const doc: CircuitDocument = {
+            format: inner.format,
+            version: inner.version,
+            nodes: [
+                {
+                    id, type: 'COMPONENT', label: definition.name, x, y,
+                    component: definition.name,
+                    inputPins: inputs.map(n => scoped(n.id)),
+                    outputPins: outputs.map(n => scoped(n.id))
+                },
+                ...inner.nodes.map(n => ({
+                    ...n,
+                    id: scoped(n.id),
+                    // The definition's own I/O become pass-through pins of the instance
+                    type: n.parent === undefined && (n.type === 'INPUT' || n.type === 'OUTPUT') ? 'PIN' : n.type,
+                    parent: n.parent === undefined ? id : scoped(n.parent),
+                    value: false,
+                    inputPins: n.inputPins?.map(scoped),
+                    outputPins: n.outputPins?.map(scoped)
+                }))
+            ],
+            connections: inner.connections.map(c => ({ ...c, from: scoped(c.from), to: scoped(c.to) }))
+        };
+
+        return Circuit.fromJSON(doc).nodes.get(id) as ComponentNode;
+    }
+}
@@ -0,0 +1,267 @@
+import { Circuit, CircuitNode, ComponentNode } from './engine';
+import type { LogicSystem } from './logic';
+
+export type IssueKind =
+    | 'floating-input' | 'unused-output' | 'multiple-drivers'
+    | 'dead-gate' | 'duplicate-label' | 'combinational-loop';
+
+export interface DesignIssue {
+    kind: IssueKind;
+    severity: 'error' | 'warning';
+    message: string;
+    /** Offending nodes; nodes inside component instances are included as themselves */
+    nodes: CircuitNode[];
+}
+
+/**
+ * Design-rule check: finds wiring mistakes the simulator would otherwise accept silently.
+ * Top-level nodes and the pins of top-level instances are checked; the inside of an
+ * instance belongs to its definition and is only looked at for loops, which can run
+ * through instances.
+ */
+export class DesignRuleChecker {
+    static check(circuit: Circuit): DesignIssue[] {
+        const nodes = Array.from(circuit.nodes.values());
+        const top = nodes.filter(n => !n.parent);
+        const instances = top.filter((n): n is ComponentNode => n instanceof ComponentNode);
+
+        return [
+            ...DesignRuleChecker.multipleDrivers(nodes),
+            ...DesignRuleChecker.combinationalLoops(circuit, nodes),
+            ...DesignRuleChecker.duplicateLabels(top),
+            ...DesignRuleChecker.floatingInputs(top, instances, circuit.logic),
+            ...DesignRuleChecker.unusedOutputs(top, instances),
+            ...DesignRuleChecker.deadGates(top)
+        ];
+    }
+
+    /** Label of a node, prefixed by the instances it sits in ("Half Adder.XOR"). */
+    static describe(node: CircuitNode): string {
+        const path = [node.label];
+        for (let p = node.parent; p; p = p.parent) path.unshift(p.label);
+        return path.join('.');
+    }
+
+    /** Ports listed more than once among a node's wires. The editor refuses these, but files can be edited by hand. */
+    private static multipleDrivers(nodes: CircuitNode[]): DesignIssue[] {
+        const issues: DesignIssue[] = [];
+        nodes.forEach(node => {
+            const seen = new Set<number>();
+            const reported = new Set<number>();
+            node.incoming.forEach(wire => {
+                if (!seen.has(wire.toPort)) {
+                    seen.add(wire.toPort);
+                    return;
+                }
+                if (reported.has(wire.toPort)) return;
+                reported.add(wire.toPort);
+                const drivers = node.incoming.filter(w => w.toPort === wire.toPort).map(w => w.from);
+                issues.push({
+                    kind: 'multiple-drivers',
+                    severity: 'error',
+                    message: `Input "${node.inputPorts[wire.toPort] ?? wire.toPort}" of ${DesignRuleChecker.describe(node)} is driven by ${drivers.map(DesignRuleChecker.describe).join(' and ')}.`,
+                    nodes: [node, ...drivers]
+                });
+            });
+        });
+        return issues;
+    }
+
+    /**
+     * Feedback loops, one issue per strongly connected component, naming one cycle through it.
+     * They are errors only where the circuit is forced to simulate combinationally.
+     */
+    private static combinationalLoops(circuit: Circuit, nodes: CircuitNode[]): DesignIssue[] {
+        return DesignRuleChecker.stronglyConnected(nodes)
+            .filter(group => group.length > 1 || group[0].outputs.includes(group[0]))
+            .map(group => {
+                const cycle = DesignRuleChecker.cycleThrough(group);
+                return {
+                    kind: 'combinational-loop' as const,
+                    severity: circuit.mode === 'combinational' ? 'error' as const : 'warning' as const,
+                    message: `Feedback loop: ${[...cycle, cycle[0]].map(DesignRuleChecker.describe).join(' → ')}.`
+                        + (circuit.mode === 'combinational' ? ' Switch to event-driven mode to simulate it.' : ''),
+                    nodes: group
+                };
+            });
+    }
+
+    private static duplicateLabels(top: CircuitNode[]): DesignIssue[] {
+        const byLabel = new Map<string, CircuitNode[]>();
+        top.filter(n => n.type === 'INPUT').forEach(n => {
+            if (!byLabel.has(n.label)) byLabel.set(n.label, []);
+            byLabel.get(n.label)!.push(n);
+        });
+        return Array.from(byLabel.entries())
+            .filter(([, list]) => list.length > 1)
+            .map(([label, list]) => ({
+                kind: 'duplicate-label',
+                severity: 'error',
+                message: `${list.length} inputs are labelled "${label}"; truth tables and expressions cannot tell them apart.`,
+                nodes: list
+            }));
+    }
+
+    private static floatingInputs(top: CircuitNode[], instances: ComponentNode[], logic: LogicSystem): DesignIssue[] {
+        const issues: DesignIssue[] = [];
+        top.forEach(node => {
+            const free = node.freeInputPorts();
+            if (node instanceof ComponentNode || free.length === 0) return;
+            const ports = free.map(p => `"${node.inputPorts[p]}"`).join(', ');
+            issues.push({
+                kind: 'floating-input',
+                severity: 'warning',
+                message: node.type === 'OUTPUT'
+                    ? `${node.label} is not connected.`
+                    : `${node.label} has nothing on input${free.length > 1 ? 's' : ''} ${ports} (${DesignRuleChecker.floatingEffect(node, logic)}).`,
+                nodes: [node]
+            });
+        });
+        instances.forEach(instance => instance.inputPins.forEach(pin => {
+            if (pin.incoming.length > 0) return;
+            issues.push({
+                kind: 'floating-input',
+                severity: 'warning',
+                message: `Input "${pin.label}" of ${instance.label} is not connected (${logic === 'binary' ? 'reads as 0' : 'floats at Z'}).`,
+                nodes: [pin]
+            });
+        }));
+        return issues;
+    }
+
+    /** What the simulator makes of a gate's unconnected inputs, as each compute()/computeLevel() handles them. */
+    private static floatingEffect(node: CircuitNode, logic: LogicSystem): string {
+        if (logic === 'four-state') return 'read as X';
+        // With no wire at all, compute() gives the gate's constant (1 for AND, NOR and XNOR)
+        if (node.incoming.length === 0) return `the output stays ${node.compute() ? 1 : 0}`;
+        return 'left out; the gate works on its connected inputs only';
+    }
+
+    private static unusedOutputs(top: CircuitNode[], instances: ComponentNode[]): DesignIssue[] {
+        const issues: DesignIssue[] = [];
+        top.forEach(node => {
+            if (node.outputPorts.length === 0 || node.outgoing.length > 0) return;
+            issues.push({
+                kind: 'unused-output',
+                severity: 'warning',
+                message: node.type === 'INPUT' ? `Input ${node.label} is not used.` : `Output of ${node.label} is not used.`,
+                nodes: [node]
+            });
+        });
+        instances.forEach(instance => instance.outputPins.forEach(pin => {
+            if (pin.outgoing.length > 0) return;
+            issues.push({
+                kind: 'unused-output',
+                severity: 'warning',
+                message: `Output "${pin.label}" of ${instance.label} is not used.`,
+                nodes: [pin]
+            });
+        }));
+        return issues;
+    }
+
+    /**
+     * Gates whose output is used, but never reaches an OUTPUT node.
+     * Gates driving nothing at all are already reported as unused.
+     */
+    private static deadGates(top: CircuitNode[]): DesignIssue[] {
+        const live = new Set<CircuitNode>();
+        const stack = top.filter(n => n.type === 'OUTPUT');
+        stack.forEach(n => live.add(n));
+        while (stack.length > 0) {
+            stack.pop()!.inputs.forEach(driver => {
+                if (live.has(driver)) return;
+                live.add(driver);
+                stack.push(driver);
+            });
+        }
+
+        return top
+            .filter(n => n.type !== 'INPUT' && n.type !== 'OUTPUT')
+            .filter(n => {
+                const ends = n instanceof ComponentNode ? n.outputPins : [n];
+                return ends.some(e => e.outgoing.length > 0) && !ends.some(e => live.has(e));
+            })
+            .map(n => ({
+                kind: 'dead-gate',
+                severity: 'warning',
+                message: `${n.label} has no path to any output.`,
+                nodes: [n]
+            }));
+    }
+
+    /** Tarjan's algorithm, iterative so deep chains cannot overflow the stack. */
+    private static stronglyConnected(nodes: CircuitNode[]): CircuitNode[][] {
+        const index = new Map<CircuitNode, number>();
+        const low = new Map<CircuitNode, number>();
+        const onStack = new Set<CircuitNode>();
+        const stack: CircuitNode[] = [];
+        const groups: CircuitNode[][] = [];
+        let counter = 0;
+
+        nodes.forEach(root => {
+            if (index.has(root)) return;
+            const frames: { node: CircuitNode, next: number }[] = [{ node: root, next: 0 }];
+            index.set(root, counter);
+            low.set(root, counter++);
+            stack.push(root);
+            onStack.add(root);
+
+            while (frames.length > 0) {
+                const frame = frames[frames.length - 1];
+                const out = frame.node.outgoing;
+                if (frame.next < out.length) {
+                    const v = out[frame.next++].to;
+                    if (!index.has(v)) {
+                        index.set(v, counter);
+                        low.set(v, counter++);
+                        stack.push(v);
+                        onStack.add(v);
+                        frames.push({ node: v, next: 0 });
+                    } else if (onStack.has(v)) {
+                        low.set(frame.node, Math.min(low.get(frame.node)!, index.get(v)!));
+                    }
+                    continue;
+                }
+
+                frames.pop();
+                const parent = frames[frames.length - 1];
+                if (parent) low.set(parent.node, Math.min(low.get(parent.node)!, low.get(frame.node)!));
+                if (low.get(frame.node) === index.get(frame.node)) {
+                    const group: CircuitNode[] = [];
+                    let member: CircuitNode;
+                    do {
+                        member = stack.pop()!;
+                        onStack.delete(member);
+                        group.push(member);
+                    } while (member !== frame.node);
+                    groups.push(group);
+                }
+            }
+        });
+        return groups;
+    }
+
+    /** A shortest cycle from the first node of a strongly connected group back to itself. */
+    private static cycleThrough(group: CircuitNode[]): CircuitNode[] {
+        const members = new Set(group);
+        const start = group[0];
+        const previous = new Map<CircuitNode, CircuitNode>();
+        const queue = [start];
+        for (let head = 0; head < queue.length; head++) {
+            const u = queue[head];
+            for (const v of u.outputs) {
+                if (!members.has(v)) continue;
+                if (v === start) {
+                    const cycle = [u];
+                    while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!);
+                    return cycle;
+                }
+                if (previous.has(v)) continue;
+                previous.set(v, u);
+                queue.push(v);
+            }
+        }
+        return group;
+    }
+}
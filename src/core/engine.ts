@@ -1,14 +1,57 @@
+import { FourState, type Logic, type LogicSystem } from './logic';
+import { CIRCUIT_FORMAT_NAME, CIRCUIT_FORMAT_VERSION, CircuitFormatError, parseCircuitDocument, type CircuitDocument, type ConnectionDocument, type NodeDocument } from './serialization';
+
+
+export type NodeType =
+    | 'AND' | 'OR' | 'NOT' | 'NAND' | 'NOR' | 'XOR' | 'XNOR' | 'BUFFER'
+    | 'CONST0' | 'CONST1' | 'INPUT' | 'CLOCK' | 'OUTPUT' | 'COMPONENT' | 'PIN';
+
+/** Gate types whose number of input pins can be configured. */
+export const MULTI_INPUT_TYPES: NodeType[] = ['AND', 'OR', 'NAND', 'NOR', 'XOR', 'XNOR'];
+export const MIN_FAN_IN = 2;
+export const MAX_FAN_IN = 8;
+
+/**
+ * Propagation delay of each node type in timing simulation, in simulated time units.
+ * Sources, outputs and component pins (plain wire) switch instantly.
+ */
+export const DEFAULT_DELAYS: Record<NodeType, number> = {
+    AND: 2, OR: 2, NOT: 1, NAND: 1, NOR: 1, XOR: 3, XNOR: 3, BUFFER: 1,
+    CONST0: 0, CONST1: 0, INPUT: 0, CLOCK: 0, OUTPUT: 0, COMPONENT: 0, PIN: 0
+};
+
+/** A wire from an output port of one node to an input port of another. */
+export interface Connection {
+    from: CircuitNode;
+    fromPort: number;
+    to: CircuitNode;
+    toPort: number;
+    /** Bend points placed by the user, in canvas coordinates */
+    bends?: { x: number, y: number }[];
+}
 
-export type NodeType = 'AND' | 'OR' | 'NOT' | 'INPUT' | 'OUTPUT';
+/** Thrown when a wire cannot be attached; the message says why. */
+export class ConnectionError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
 
 export abstract class CircuitNode {
     id: string;
     type: NodeType;
-    inputs: CircuitNode[] = [];
-    outputs: CircuitNode[] = [];
-    value: boolean = false;
+    /** Wires into this node, sorted by input port; each port has at most one driver */
+    incoming: Connection[] = [];
+    /** Wires leaving this node */
+    outgoing: Connection[] = [];
+    /** Number of input ports */
+    inputCount: number = 1;
+    /** Signal on the output; nodes start unknown until evaluated */
+    level: Logic = 'X';
     x: number = 0;
     y: number = 0;
+    /** Component instance this node belongs to; null for top-level nodes. */
+    parent: ComponentNode | null = null;
 
     label: string;
     constructor(id: string, type: NodeType, x: number = 0, y: number = 0, label: string = '') {
@@ -19,63 +62,146 @@ export abstract class CircuitNode {
         this.label = label || type;
     }
 
+    /** Binary view of the signal: true exactly when the level is '1'. */
+    get value(): boolean {
+        return this.level === '1';
+    }
+
+    set value(v: boolean) {
+        this.level = v ? '1' : '0';
+    }
+
     abstract compute(): boolean;
 
-    addInput(node: CircuitNode) {
-        if (!this.inputs.includes(node)) {
-            this.inputs.push(node);
-            node.outputs.push(this);
-        }
+    /** Output level in four-valued logic; by default the binary result. */
+    computeLevel(): Logic {
+        return this.compute() ? '1' : '0';
     }
 
-    removeInput(node: CircuitNode) {
-        const index = this.inputs.indexOf(node);
-        if (index !== -1) {
-            this.inputs.splice(index, 1);
-            const outIndex = node.outputs.indexOf(this);
-            if (outIndex !== -1) {
-                node.outputs.splice(outIndex, 1);
-            }
-        }
+    /** Level on each input port; a port without a driver floats ('Z'). */
+    protected inputLevels(): Logic[] {
+        return this.inputPorts.map((_, i) => this.inputAt(i)?.from.level ?? 'Z');
+    }
+
+    /** Names of the input ports, in pin order ("in", or "in0".."inN" for several). */
+    get inputPorts(): string[] {
+        if (this.inputCount === 1) return ['in'];
+        return Array.from({ length: this.inputCount }, (_, i) => `in${i}`);
+    }
+
+    /** Names of the output ports, in pin order. */
+    get outputPorts(): string[] {
+        return ['out'];
+    }
+
+    /** Most input ports this node can be given. */
+    get maxFanIn(): number {
+        return MULTI_INPUT_TYPES.includes(this.type) ? MAX_FAN_IN : this.inputCount;
+    }
+
+    /** Driving nodes of the connected input ports, in port order. */
+    get inputs(): CircuitNode[] {
+        return this.incoming.map(c => c.from);
+    }
+
+    /** Nodes driven by this one (once per wire). */
+    get outputs(): CircuitNode[] {
+        return this.outgoing.map(c => c.to);
+    }
+
+    /** The wire on an input port, if any. */
+    inputAt(port: number): Connection | undefined {
+        return this.incoming.find(c => c.toPort === port);
+    }
+
+    /** Input ports without a driver. */
+    freeInputPorts(): number[] {
+        return this.inputPorts.map((_, i) => i).filter(i => !this.inputAt(i));
+    }
+
+    /** Detaches the wire on an input port. */
+    removeInput(port: number) {
+        const wire = this.inputAt(port);
+        if (!wire) return;
+        this.incoming.splice(this.incoming.indexOf(wire), 1);
+        wire.from.outgoing.splice(wire.from.outgoing.indexOf(wire), 1);
     }
 }
 
 export class InputNode extends CircuitNode {
     constructor(id: string, x: number, y: number, label: string = 'INPUT') {
         super(id, 'INPUT', x, y, label);
+        this.inputCount = 0;
+        this.value = false;
     }
     compute(): boolean {
         return this.value; // Value is set externally
     }
+    computeLevel(): Logic {
+        return this.level;
+    }
     setValue(val: boolean) {
         this.value = val;
     }
 }
 
+/**
+ * Square-wave source. The timing simulator toggles it every half period; in
+ * zero-delay simulation it is a switch like any other input.
+ */
+export class ClockNode extends InputNode {
+    static DEFAULT_PERIOD = 20;
+    /** Shortest period; each half must last at least one time unit */
+    static MIN_PERIOD = 2;
+
+    /** Length of one full cycle, in simulated time units */
+    period: number;
+
+    constructor(id: string, x: number, y: number, label: string = 'CLK', period: number = ClockNode.DEFAULT_PERIOD) {
+        super(id, x, y, label);
+        this.type = 'CLOCK';
+        this.period = period;
+    }
+}
+
 export class OutputNode extends CircuitNode {
     constructor(id: string, x: number, y: number) {
         super(id, 'OUTPUT', x, y);
     }
+    get outputPorts(): string[] {
+        return [];
+    }
     compute(): boolean {
-        return this.inputs.length > 0 ? this.inputs[0].value : false;
+        return this.incoming.length > 0 ? this.incoming[0].from.value : false;
+    }
+    computeLevel(): Logic {
+        return this.incoming.length > 0 ? this.incoming[0].from.level : 'Z';
     }
 }
 
 export class AndGate extends CircuitNode {
-    constructor(id: string, x: number, y: number) {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
         super(id, 'AND', x, y);
+        this.inputCount = inputCount;
     }
     compute(): boolean {
-        return this.inputs.every(inp => inp.value);
+        return this.incoming.every(c => c.from.value);
+    }
+    computeLevel(): Logic {
+        return FourState.and(this.inputLevels());
     }
 }
 
 export class OrGate extends CircuitNode {
-    constructor(id: string, x: number, y: number) {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
         super(id, 'OR', x, y);
+        this.inputCount = inputCount;
     }
     compute(): boolean {
-        return this.inputs.some(inp => inp.value);
+        return this.incoming.some(c => c.from.value);
+    }
+    computeLevel(): Logic {
+        return FourState.or(this.inputLevels());
     }
 }
 
@@ -84,11 +210,139 @@ export class NotGate extends CircuitNode {
         super(id, 'NOT', x, y);
     }
     compute(): boolean {
-        return this.inputs.length > 0 ? !this.inputs[0].value : false;
+        return this.incoming.length > 0 ? !this.incoming[0].from.value : false;
+    }
+    computeLevel(): Logic {
+        return FourState.not(this.inputLevels()[0]);
     }
 }
 
+export class NandGate extends CircuitNode {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
+        super(id, 'NAND', x, y);
+        this.inputCount = inputCount;
+    }
+    compute(): boolean {
+        return !this.incoming.every(c => c.from.value);
+    }
+    computeLevel(): Logic {
+        return FourState.not(FourState.and(this.inputLevels()));
+    }
+}
 
+export class NorGate extends CircuitNode {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
+        super(id, 'NOR', x, y);
+        this.inputCount = inputCount;
+    }
+    compute(): boolean {
+        return !this.incoming.some(c => c.from.value);
+    }
+    computeLevel(): Logic {
+        return FourState.not(FourState.or(this.inputLevels()));
+    }
+}
+
+/** Odd parity: true when an odd number of inputs are high. */
+export class XorGate extends CircuitNode {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
+        super(id, 'XOR', x, y);
+        this.inputCount = inputCount;
+    }
+    compute(): boolean {
+        return this.incoming.reduce((acc, c) => acc !== c.from.value, false);
+    }
+    computeLevel(): Logic {
+        return FourState.xor(this.inputLevels());
+    }
+}
+
+export class XnorGate extends CircuitNode {
+    constructor(id: string, x: number, y: number, inputCount: number = MIN_FAN_IN) {
+        super(id, 'XNOR', x, y);
+        this.inputCount = inputCount;
+    }
+    compute(): boolean {
+        return !this.incoming.reduce((acc, c) => acc !== c.from.value, false);
+    }
+    computeLevel(): Logic {
+        return FourState.not(FourState.xor(this.inputLevels()));
+    }
+}
+
+export class BufferGate extends CircuitNode {
+    constructor(id: string, x: number, y: number) {
+        super(id, 'BUFFER', x, y);
+    }
+    compute(): boolean {
+        return this.incoming.length > 0 ? this.incoming[0].from.value : false;
+    }
+    computeLevel(): Logic {
+        return FourState.buffer(this.inputLevels()[0]);
+    }
+}
+
+export class ConstantNode extends CircuitNode {
+    constructor(id: string, x: number, y: number, value: boolean) {
+        super(id, value ? 'CONST1' : 'CONST0', x, y, value ? '1' : '0');
+        this.value = value;
+        this.inputCount = 0;
+    }
+    compute(): boolean {
+        return this.type === 'CONST1';
+    }
+}
+
+/**
+ * Pass-through node standing in for an INPUT/OUTPUT inside a component instance.
+ * External wires connect directly to these, so the engine only ever sees a flat graph.
+ */
+export class PinNode extends CircuitNode {
+    constructor(id: string, x: number, y: number, label: string = 'PIN') {
+        super(id, 'PIN', x, y, label);
+    }
+    compute(): boolean {
+        return this.incoming.length > 0 ? this.incoming[0].from.value : false;
+    }
+    /** A pin is just a stretch of wire, so an undriven one passes 'Z' on. */
+    computeLevel(): Logic {
+        return this.incoming.length > 0 ? this.incoming[0].from.level : 'Z';
+    }
+}
+
+/**
+ * Placed instance of a custom component.
+ * The instance itself carries no logic; its `children` (gates, nested instances and
+ * pins) live in the same Circuit and are evaluated like any other node.
+ */
+export class ComponentNode extends CircuitNode {
+    component: string;
+    children: CircuitNode[] = [];
+    inputPins: PinNode[] = [];
+    outputPins: PinNode[] = [];
+
+    constructor(id: string, x: number, y: number, component: string = '') {
+        super(id, 'COMPONENT', x, y, component);
+        this.component = component;
+        this.inputCount = 0; // Wires attach to the inner pins instead
+    }
+    get outputPorts(): string[] {
+        return [];
+    }
+    compute(): boolean {
+        return false;
+    }
+
+    /** All nodes nested below this instance, at any depth. */
+    descendants(): CircuitNode[] {
+        const result: CircuitNode[] = [];
+        this.children.forEach(child => {
+            result.push(child);
+            if (child instanceof ComponentNode) result.push(...child.descendants());
+        });
+        return result;
+    }
+}
 
 export class CycleDetectedError extends Error {
     constructor() {
@@ -96,140 +350,483 @@ export class CycleDetectedError extends Error {
     }
 }
 
+export class OscillationError extends Error {
+    nodes: CircuitNode[];
+
+    constructor(nodes: CircuitNode[]) {
+        super(`Oscillation Detected: The circuit did not settle (${nodes.map(n => n.label).join(', ')}).`);
+        this.nodes = nodes;
+    }
+}
+
+/**
+ * 'combinational' - topological sort only, throws on feedback loops.
+ * 'event'         - event queue until the circuit settles (latches, flip-flops).
+ * 'auto'          - topological when the circuit is acyclic, event-driven otherwise.
+ */
+export type SimulationMode = 'auto' | 'combinational' | 'event';
+
 export class Circuit {
     nodes: Map<string, CircuitNode> = new Map();
+    mode: SimulationMode = 'auto';
+    logic: LogicSystem = 'binary';
+    /** Timing-simulation delays that differ from DEFAULT_DELAYS */
+    delays: Partial<Record<NodeType, number>> = {};
+
+    /** Upper bound on how often a single node may change during one event-driven settle. */
+    static MAX_CHANGES_PER_NODE = 100;
+
+    /** Cached topological order; null when stale, 'cyclic' when the graph has a feedback loop */
+    private order: CircuitNode[] | 'cyclic' | null = null;
+    /** Position of each node in the cached order */
+    private rank: Map<CircuitNode, number> = new Map();
+    /** Mode of the last successful evaluation; null once values may be stale for the structure */
+    private settledMode: SimulationMode | null = null;
+    /** Logic system the current levels were computed in */
+    private levelsLogic: LogicSystem = 'binary';
+
+    /**
+     * Drops the cached evaluation order. Every structural edit (nodes or wires) calls this;
+     * code that edits `incoming`/`outgoing` directly must too.
+     */
+    invalidate() {
+        this.order = null;
+        this.settledMode = null;
+    }
 
     addNode(node: CircuitNode) {
+        this.invalidate();
         this.nodes.set(node.id, node);
+        if (node instanceof ComponentNode) {
+            node.descendants().forEach(child => this.nodes.set(child.id, child));
+        }
     }
 
     removeNode(nodeId: string) {
         const node = this.nodes.get(nodeId);
         if (!node) return;
+        this.invalidate();
+
+        // A component instance takes its whole subtree with it.
+        // Wires inside the subtree are kept so the instance can be re-added (undo).
+        const removed = new Set<CircuitNode>([node]);
+        if (node instanceof ComponentNode) node.descendants().forEach(n => removed.add(n));
 
         // Remove connections
         // We need to iterate carefully.
         // Making copies of arrays to avoid concurrent modification issues
-        [...node.inputs].forEach(inp => node.removeInput(inp));
-        [...node.outputs].forEach(out => out.removeInput(node));
+        removed.forEach(n => {
+            n.incoming.filter(c => !removed.has(c.from)).forEach(c => n.removeInput(c.toPort));
+            n.outgoing.filter(c => !removed.has(c.to)).forEach(c => c.to.removeInput(c.toPort));
+            this.nodes.delete(n.id);
+        });
+    }
+
+    /** Exchanges nodes and settings (mode, logic system, delays) with another circuit (used to replace content in place). */
+    swapContents(other: Circuit) {
+        [this.nodes, other.nodes] = [other.nodes, this.nodes];
+        [this.mode, other.mode] = [other.mode, this.mode];
+        [this.logic, other.logic] = [other.logic, this.logic];
+        [this.delays, other.delays] = [other.delays, this.delays];
+        [this.levelsLogic, other.levelsLogic] = [other.levelsLogic, this.levelsLogic];
+        this.invalidate();
+        other.invalidate();
+    }
 
-        this.nodes.delete(nodeId);
+    /** Removes the wire on an input port; returns it, or null if the port was free. */
+    removeConnection(toId: string, toPort: number): Connection | null {
+        const wire = this.nodes.get(toId)?.inputAt(toPort);
+        if (!wire) return null;
+        this.invalidate();
+        wire.to.removeInput(toPort);
+        return wire;
     }
 
-    addConnection(fromId: string, toId: string) {
+    /**
+     * Wires an output port to an input port.
+     * @param toPort Target input port; defaults to the first free one
+     * Throws ConnectionError if the port does not exist or already has a driver.
+     */
+    addConnection(fromId: string, toId: string, toPort?: number, fromPort: number = 0): Connection {
         const from = this.nodes.get(fromId);
         const to = this.nodes.get(toId);
-        if (from && to) {
-            to.addInput(from);
+        if (!from || !to) throw new ConnectionError('Cannot connect a node that is not in the circuit.');
+
+        if (fromPort < 0 || fromPort >= from.outputPorts.length) {
+            throw new ConnectionError(`${from.label} has no output port ${fromPort}.`);
+        }
+        if (to.inputPorts.length === 0) throw new ConnectionError(`${to.label} has no inputs.`);
+        const port = toPort ?? to.freeInputPorts()[0] ?? 0;
+        if (toPort === undefined && to.inputPorts.length > 1 && to.inputAt(port)) {
+            throw new ConnectionError(`All ${to.inputCount} inputs of ${to.label} are already driven.`);
+        }
+        if (port < 0 || port >= to.inputPorts.length) {
+            throw new ConnectionError(`${to.label} has no input port ${port}.`);
         }
+        const existing = to.inputAt(port);
+        if (existing) {
+            throw new ConnectionError(`Input "${to.inputPorts[port]}" of ${to.label} is already driven by ${existing.from.label}.`);
+        }
+
+        this.invalidate();
+        const wire: Connection = { from, fromPort, to, toPort: port };
+        const index = to.incoming.findIndex(c => c.toPort > port);
+        to.incoming.splice(index === -1 ? to.incoming.length : index, 0, wire);
+        from.outgoing.push(wire);
+        return wire;
     }
 
     /**
      * Kahn's Algorithm for Topological Sort
      * Used to determine the evaluation order of the gates.
+     * The result is cached until the next structural edit; do not modify it.
      */
-    getEvaluationOrder(): CircuitNode[] {
-        const inDegree: Map<string, number> = new Map();
-        const queue: CircuitNode[] = [];
+    getEvaluationOrder(): readonly CircuitNode[] {
+        if (this.order === 'cyclic') throw new CycleDetectedError();
+        if (this.order) return this.order;
+
+        const inDegree: Map<CircuitNode, number> = new Map();
         const sorted: CircuitNode[] = [];
 
         // 1. Initialize in-degrees
-        this.nodes.forEach(node => {
-            inDegree.set(node.id, 0);
-        });
+        this.nodes.forEach(node => inDegree.set(node, node.incoming.length));
 
+        // 2. Enqueue nodes with in-degree 0 (the sorted list doubles as the queue)
         this.nodes.forEach(node => {
-            node.outputs.forEach(out => {
-                inDegree.set(out.id, (inDegree.get(out.id) || 0) + 1);
-            });
-        });
-
-        // 2. Enqueue nodes with in-degree 0
-        this.nodes.forEach(node => {
-            if (inDegree.get(node.id) === 0) {
-                queue.push(node);
-            }
+            if (inDegree.get(node) === 0) sorted.push(node);
         });
 
         // 3. Process queue
-        while (queue.length > 0) {
-            const u = queue.shift()!;
-            sorted.push(u);
-
-            u.outputs.forEach(v => {
-                inDegree.set(v.id, (inDegree.get(v.id)! - 1));
-                if (inDegree.get(v.id) === 0) {
-                    queue.push(v);
-                }
+        for (let head = 0; head < sorted.length; head++) {
+            sorted[head].outgoing.forEach(({ to }) => {
+                const degree = inDegree.get(to)! - 1;
+                inDegree.set(to, degree);
+                if (degree === 0) sorted.push(to);
             });
         }
 
         // 4. Cycle Detection check
         if (sorted.length !== this.nodes.size) {
+            this.order = 'cyclic';
             throw new CycleDetectedError();
         }
 
+        this.order = sorted;
+        this.rank = new Map(sorted.map((node, i) => [node, i]));
         return sorted;
     }
 
-    evaluate() {
-        try {
-            const order = this.getEvaluationOrder();
-            for (const node of order) {
-                // Skip InputNodes as they are set manually/externally
-                if (node instanceof InputNode) continue;
+    /**
+     * Brings every value up to date.
+     * @param changed Nodes whose value was set from outside since the last evaluation (toggled
+     *   switches). When given and nothing structural changed, only their fan-out cone is recomputed.
+     * @returns The nodes whose value changed (including `changed`)
+     */
+    evaluate(changed?: CircuitNode[]): CircuitNode[] {
+        if (this.logic !== this.levelsLogic) this.switchLogic();
+        const incremental = changed !== undefined && this.settledMode === this.mode;
+        this.settledMode = null; // Until this evaluation completes
+
+        let result: CircuitNode[];
+        if (this.mode === 'event') {
+            result = this.evaluateEventDriven(Circuit.MAX_CHANGES_PER_NODE, incremental ? changed : undefined);
+        } else {
+            let order: readonly CircuitNode[] | null = null;
+            try {
+                order = this.getEvaluationOrder();
+            } catch (e) {
+                if (!(e instanceof CycleDetectedError && this.mode === 'auto')) throw e;
+            }
+            if (!order) {
+                result = this.evaluateEventDriven(Circuit.MAX_CHANGES_PER_NODE, incremental ? changed : undefined);
+            } else if (incremental) {
+                result = this.evaluateCone(order, changed!);
+            } else {
+                result = [];
+                for (const node of order) {
+                    // Skip InputNodes as they are set manually/externally
+                    if (node instanceof InputNode) continue;
+
+                    if (this.recompute(node)) result.push(node);
+                }
+            }
+        }
+
+        this.settledMode = this.mode;
+        return result;
+    }
+
+    /**
+     * Entering four-state logic forgets stored values: every node but the switches is
+     * unknown until something drives it. Going back to binary reads unknowns as 0.
+     */
+    private switchLogic() {
+        this.nodes.forEach(node => {
+            if (node instanceof InputNode) return;
+            if (this.logic === 'four-state') node.level = 'X';
+            else node.value = node.value;
+        });
+        this.levelsLogic = this.logic;
+        this.settledMode = null;
+    }
+
+    /** Output a node would have now, from its current inputs, in the active logic system. */
+    nextLevel(node: CircuitNode): Logic {
+        if (this.logic === 'four-state') return node.computeLevel();
+        return node.compute() ? '1' : '0';
+    }
+
+    /** Propagation delay of a node in timing simulation. */
+    delayOf(node: CircuitNode): number {
+        return this.delays[node.type] ?? DEFAULT_DELAYS[node.type];
+    }
+
+    /**
+     * Recomputes one node in the active logic system; returns whether its signal changed.
+     * In binary logic a node still unknown from before settles to 0.
+     */
+    private recompute(node: CircuitNode): boolean {
+        const next = this.nextLevel(node);
+        if (next === node.level) return false;
+        node.level = next;
+        return true;
+    }
+
+    /** Recomputes, in topological order, only the nodes downstream of the changed ones. */
+    private evaluateCone(order: readonly CircuitNode[], changed: CircuitNode[]): CircuitNode[] {
+        const pending = new Uint8Array(order.length);
+        let remaining = 0;
+        let first = order.length;
+        const mark = (node: CircuitNode) => {
+            const r = this.rank.get(node)!;
+            if (pending[r]) return;
+            pending[r] = 1;
+            remaining++;
+            first = Math.min(first, r);
+        };
+
+        changed.forEach(node => node.outgoing.forEach(c => mark(c.to)));
+
+        const result = [...changed];
+        for (let i = first; remaining > 0; i++) {
+            if (!pending[i]) continue;
+            pending[i] = 0;
+            remaining--;
+
+            const node = order[i];
+            if (node instanceof InputNode) continue;
+            if (!this.recompute(node)) continue;
+            result.push(node);
+            node.outgoing.forEach(c => mark(c.to));
+        }
+        return result;
+    }
 
-                node.value = node.compute();
+    /**
+     * Event-driven evaluation.
+     * Nodes are re-computed one at a time from a FIFO queue; whenever a value changes
+     * its fan-out is scheduled. Current values act as the stored state, so feedback
+     * loops (latches) keep their value between calls.
+     * Throws OscillationError if the circuit does not settle.
+     * @param sources Start from the fan-out of these nodes only (values elsewhere are known to be settled)
+     * @returns The nodes whose value changed (including `sources`)
+     */
+    evaluateEventDriven(maxChangesPerNode: number = Circuit.MAX_CHANGES_PER_NODE, sources?: CircuitNode[]): CircuitNode[] {
+        const queue: CircuitNode[] = [];
+        const queued: Set<CircuitNode> = new Set();
+        const changes: Map<CircuitNode, number> = new Map();
+        let head = 0;
+
+        const schedule = (node: CircuitNode) => {
+            if (node instanceof InputNode || queued.has(node)) return;
+            queued.add(node);
+            queue.push(node);
+        };
+
+        if (sources) sources.forEach(node => node.outgoing.forEach(c => schedule(c.to)));
+        else this.nodes.forEach(schedule);
+
+        while (head < queue.length) {
+            const node = queue[head++];
+            queued.delete(node);
+
+            if (!this.recompute(node)) continue;
+
+            const count = (changes.get(node) || 0) + 1;
+            changes.set(node, count);
+
+            if (count > maxChangesPerNode) {
+                // Everything that kept toggling at a comparable rate is part of (or driven by) the loop
+                const oscillating = Array.from(changes.entries())
+                    .filter(([, c]) => c > maxChangesPerNode / 2)
+                    .map(([n]) => n);
+                throw new OscillationError(oscillating);
             }
-        } catch (e) {
-            if (e instanceof CycleDetectedError) {
-                console.error(e.message);
-                // In a real app, we might bubble this up to the UI
-                throw e;
+
+            node.outgoing.forEach(c => schedule(c.to));
+
+            // Compact the consumed part of the queue now and then
+            if (head > 1024 && head * 2 > queue.length) {
+                queue.splice(0, head);
+                head = 0;
             }
         }
+
+        return [...(sources ?? []), ...Array.from(changes.keys()).filter(n => !sources?.includes(n))];
     }
 
-    getTruthTable(): { inputs: Record<string, boolean>, outputs: Record<string, boolean>, inputLabels: Record<string, string> }[] {
-        const inputs = Util.getNodesByType<InputNode>(this, 'INPUT');
-        const outputs = Util.getNodesByType<OutputNode>(this, 'OUTPUT');
-        const results = [];
+    toJSON(): CircuitDocument {
+        const doc: CircuitDocument = {
+            format: CIRCUIT_FORMAT_NAME,
+            version: CIRCUIT_FORMAT_VERSION,
+            mode: this.mode,
+            logic: this.logic,
+            nodes: [],
+            connections: []
+        };
 
-        const permutations = 1 << inputs.length;
-        for (let i = 0; i < permutations; i++) {
-            // Set input states
-            inputs.forEach((inp, idx) => {
-                inp.setValue(!!((i >> idx) & 1));
+        this.nodes.forEach(node => {
+            const nodeDoc: NodeDocument = { id: node.id, type: node.type, label: node.label, x: node.x, y: node.y, value: node.value };
+            if (node.parent) nodeDoc.parent = node.parent.id;
+            if (MULTI_INPUT_TYPES.includes(node.type)) nodeDoc.inputCount = node.inputCount;
+            if (node instanceof ClockNode) nodeDoc.period = node.period;
+            if (node instanceof ComponentNode) {
+                nodeDoc.component = node.component;
+                nodeDoc.inputPins = node.inputPins.map(p => p.id);
+                nodeDoc.outputPins = node.outputPins.map(p => p.id);
+            }
+            doc.nodes.push(nodeDoc);
+            node.incoming.forEach(c => {
+                const wireDoc: ConnectionDocument = { from: c.from.id, fromPort: c.fromPort, to: node.id, toPort: c.toPort };
+                if (c.bends && c.bends.length > 0) wireDoc.bends = c.bends.map(b => ({ x: b.x, y: b.y }));
+                doc.connections.push(wireDoc);
             });
+        });
+
+        if (Object.keys(this.delays).length > 0) doc.delays = { ...this.delays };
+        return doc;
+    }
 
-            // Evaluate
+    /**
+     * Rebuilds a circuit from a saved document (object or JSON string).
+     * The document is fully validated first; throws CircuitFormatError on any problem.
+     */
+    static fromJSON(data: unknown): Circuit {
+        if (typeof data === 'string') {
             try {
-                this.evaluate();
+                data = JSON.parse(data);
             } catch (e) {
-                // Decide how to handle cycles in truth table (maybe return null)
-                return [];
+                throw new CircuitFormatError(`not valid JSON (${(e as Error).message}).`);
             }
+        }
+        const doc = parseCircuitDocument(data);
+
+        if (doc.mode !== undefined && !['auto', 'combinational', 'event'].includes(doc.mode)) {
+            throw new CircuitFormatError(`unknown simulation mode "${doc.mode}".`);
+        }
+        if (doc.logic !== undefined && !['binary', 'four-state'].includes(doc.logic)) {
+            throw new CircuitFormatError(`unknown logic system "${doc.logic}".`);
+        }
 
-            // Record result
-            const row = {
-                inputs: {} as Record<string, boolean>,
-                outputs: {} as Record<string, boolean>,
-                inputLabels: {} as Record<string, string>
+        const nodes = doc.nodes.map(n => {
+            const node = Util.createNode(n.type as NodeType, n.id, n.x, n.y, n.label);
+            if (!node) throw new CircuitFormatError(`node "${n.id}" has unknown type "${n.type}".`);
+            node.value = n.value ?? node.value;
+            if (node instanceof ComponentNode) node.component = n.component ?? n.label;
+            if (n.inputCount !== undefined) {
+                if (!MULTI_INPUT_TYPES.includes(node.type)) throw new CircuitFormatError(`node "${n.id}" is a ${n.type}, which has no "inputCount".`);
+                if (n.inputCount < MIN_FAN_IN || n.inputCount > MAX_FAN_IN) {
+                    throw new CircuitFormatError(`node "${n.id}" has ${n.inputCount} inputs; ${n.type} gates take ${MIN_FAN_IN} to ${MAX_FAN_IN}.`);
+                }
+                node.inputCount = n.inputCount;
+            }
+            if (n.period !== undefined && node instanceof ClockNode) node.period = n.period;
+            return node;
+        });
+        const byId = new Map(nodes.map(n => [n.id, n]));
+
+        // Rebuild the component hierarchy
+        doc.nodes.forEach(n => {
+            const node = byId.get(n.id)!;
+            if (n.parent !== undefined) {
+                const parent = byId.get(n.parent);
+                if (!(parent instanceof ComponentNode)) {
+                    throw new CircuitFormatError(`node "${n.id}" has a parent that is not a component.`);
+                }
+                node.parent = parent;
+                parent.children.push(node);
+            } else if (node instanceof PinNode) {
+                throw new CircuitFormatError(`pin "${n.id}" must belong to a component.`);
+            }
+        });
+        doc.nodes.forEach(n => {
+            const node = byId.get(n.id)!;
+            if (!(node instanceof ComponentNode)) return;
+            const resolvePin = (pinId: string) => {
+                const pin = byId.get(pinId);
+                if (!(pin instanceof PinNode) || pin.parent !== node) {
+                    throw new CircuitFormatError(`component "${n.id}" lists "${pinId}", which is not one of its pins.`);
+                }
+                return pin;
             };
+            node.inputPins = (n.inputPins ?? []).map(resolvePin);
+            node.outputPins = (n.outputPins ?? []).map(resolvePin);
+        });
 
-            inputs.forEach(inp => {
-                row.inputs[inp.id] = inp.value;
-                row.inputLabels[inp.id] = inp.label;
+        // Only touch a real Circuit once everything is known to be valid
+        const circuit = new Circuit();
+        if (doc.mode) circuit.mode = doc.mode as SimulationMode;
+        if (doc.logic) circuit.logic = doc.logic as LogicSystem;
+        if (doc.delays) {
+            Object.entries(doc.delays).forEach(([type, delay]) => {
+                if (!(type in DEFAULT_DELAYS)) throw new CircuitFormatError(`delays has unknown node type "${type}".`);
+                circuit.delays[type as NodeType] = delay;
             });
-            outputs.forEach(out => row.outputs[out.id] = out.value);
-            results.push(row);
         }
-        return results;
+        nodes.forEach(node => circuit.addNode(node));
+
+        doc.connections.forEach((c, i) => {
+            try {
+                const wire = circuit.addConnection(c.from, c.to, c.toPort, c.fromPort);
+                if (c.bends) wire.bends = c.bends.map(b => ({ x: b.x, y: b.y }));
+            } catch (e) {
+                if (e instanceof ConnectionError) throw new CircuitFormatError(`connections[${i}]: ${e.message}`);
+                throw e;
+            }
+        });
+
+        return circuit;
     }
 }
 
 export class Util {
+    /** Instantiates the node class for a type; returns null for unknown types. */
+    static createNode(type: NodeType, id: string, x: number, y: number, label?: string): CircuitNode | null {
+        let node: CircuitNode;
+        switch (type) {
+            case 'AND': node = new AndGate(id, x, y); break;
+            case 'OR': node = new OrGate(id, x, y); break;
+            case 'NOT': node = new NotGate(id, x, y); break;
+            case 'NAND': node = new NandGate(id, x, y); break;
+            case 'NOR': node = new NorGate(id, x, y); break;
+            case 'XOR': node = new XorGate(id, x, y); break;
+            case 'XNOR': node = new XnorGate(id, x, y); break;
+            case 'BUFFER': node = new BufferGate(id, x, y); break;
+            case 'CONST0': node = new ConstantNode(id, x, y, false); break;
+            case 'CONST1': node = new ConstantNode(id, x, y, true); break;
+            case 'INPUT': node = new InputNode(id, x, y); break;
+            case 'CLOCK': node = new ClockNode(id, x, y); break;
+            case 'OUTPUT': node = new OutputNode(id, x, y); break;
+            case 'PIN': node = new PinNode(id, x, y); break;
+            case 'COMPONENT': node = new ComponentNode(id, x, y); break;
+            default: return null;
+        }
+        if (label) node.label = label;
+        return node;
+    }
+
+    /** Top-level nodes of a type; nodes inside component instances are not included. */
     static getNodesByType<T extends CircuitNode>(circuit: Circuit, type: NodeType): T[] {
-        return Array.from(circuit.nodes.values()).filter(n => n.type === type) as T[];
+        return Array.from(circuit.nodes.values()).filter(n => n.type === type && !n.parent) as T[];
     }
 }
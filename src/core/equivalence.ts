@@ -0,0 +1,163 @@
+import { Circuit, CircuitNode, CycleDetectedError, Util } from './engine';
+import { Bdd } from './bdd';
+
+/** The two circuits cannot be compared (e.g. ambiguous labels). */
+export class EquivalenceError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/** Inputs on which the two circuits disagree. */
+export interface Counterexample {
+    /** Label of an output that differs */
+    output: string;
+    /** Value of every input label of either circuit */
+    inputs: Record<string, boolean>;
+    left: boolean;
+    right: boolean;
+}
+
+export interface EquivalenceResult {
+    equivalent: boolean;
+    /** Output labels both circuits have, which were compared */
+    compared: string[];
+    /** Output labels only the left (or only the right) circuit has */
+    onlyLeft: string[];
+    onlyRight: string[];
+    counterexample: Counterexample | null;
+}
+
+/**
+ * Formal equivalence check of two combinational circuits.
+ * Inputs (INPUT and CLOCK) and outputs are matched by label; every output is turned
+ * into a BDD over the shared inputs, and since BDDs are canonical two outputs compute
+ * the same function exactly when they end up as the same BDD node. Gates follow the
+ * simulator's binary semantics, including unconnected inputs.
+ */
+export class EquivalenceChecker {
+    static check(left: Circuit, right: Circuit): EquivalenceResult {
+        const sides = [left, right].map((circuit, i) => {
+            const name = i === 0 ? 'first' : 'second';
+            const inputs = [...Util.getNodesByType(circuit, 'INPUT'), ...Util.getNodesByType(circuit, 'CLOCK')];
+            const outputs = Util.getNodesByType(circuit, 'OUTPUT');
+            EquivalenceChecker.requireUnique(inputs, `the ${name} circuit has several inputs labelled`);
+            EquivalenceChecker.requireUnique(outputs, `the ${name} circuit has several outputs labelled`);
+            return { inputs, outputs: new Map(outputs.map(o => [o.label, o])) };
+        });
+
+        const compared = Array.from(sides[0].outputs.keys()).filter(label => sides[1].outputs.has(label));
+        const result: EquivalenceResult = {
+            equivalent: true,
+            compared,
+            onlyLeft: Array.from(sides[0].outputs.keys()).filter(label => !sides[1].outputs.has(label)),
+            onlyRight: Array.from(sides[1].outputs.keys()).filter(label => !sides[0].outputs.has(label)),
+            counterexample: null
+        };
+        result.equivalent = result.onlyLeft.length === 0 && result.onlyRight.length === 0;
+
+        // Variables in order of first use from the outputs, which keeps related inputs close
+        const order: string[] = [];
+        const seen = new Set<CircuitNode>();
+        // Depth-first from each output with an explicit stack, so deep cones cannot overflow it
+        const visit = (root: CircuitNode) => {
+            const stack = [root];
+            while (stack.length > 0) {
+                const node = stack.pop()!;
+                if (seen.has(node)) continue;
+                seen.add(node);
+                if (node.type === 'INPUT' || node.type === 'CLOCK') {
+                    if (!order.includes(node.label)) order.push(node.label);
+                }
+                stack.push(...[...node.inputs].reverse());
+            }
+        };
+        compared.forEach(label => sides.forEach(side => visit(side.outputs.get(label)!)));
+        sides.forEach(side => side.inputs.forEach(n => { if (!order.includes(n.label)) order.push(n.label); }));
+
+        const bdd = new Bdd();
+        const builders = [new Map<CircuitNode, number>(), new Map<CircuitNode, number>()];
+        for (const label of compared) {
+            const [f, g] = sides.map((side, i) => EquivalenceChecker.build(bdd, side.outputs.get(label)!, order, builders[i]));
+            if (f === g) continue;
+
+            result.equivalent = false;
+            const assignment = bdd.satisfy(bdd.xor(f, g))!;
+            const inputs: Record<string, boolean> = {};
+            order.forEach((name, index) => { inputs[name] = assignment.get(index) ?? false; });
+            const point = EquivalenceChecker.cube(bdd, inputs, order);
+            const value = (fn: number) => bdd.and(fn, point) !== Bdd.FALSE;
+            result.counterexample = { output: label, inputs, left: value(f), right: value(g) };
+            break;
+        }
+        return result;
+    }
+
+    /**
+     * BDD of a node's output, built over its fan-in cone (memoized per circuit).
+     * The cone is walked with an explicit stack, as gate chains can be thousands deep.
+     * Throws CycleDetectedError if the cone contains a feedback loop.
+     */
+    private static build(bdd: Bdd, root: CircuitNode, order: string[], memo: Map<CircuitNode, number>): number {
+        const visiting = new Set<CircuitNode>();
+        // A node is pushed once to expand it and once more, below its inputs, to build it
+        const stack: { node: CircuitNode, expanded: boolean }[] = [{ node: root, expanded: false }];
+        while (stack.length > 0) {
+            const { node, expanded } = stack.pop()!;
+            if (memo.has(node)) continue;
+            if (expanded) {
+                const f = node.type === 'INPUT' || node.type === 'CLOCK'
+                    ? bdd.variable(order.indexOf(node.label))
+                    : EquivalenceChecker.gate(bdd, node, node.inputs.map(n => memo.get(n)!));
+                visiting.delete(node);
+                memo.set(node, f);
+                continue;
+            }
+            if (visiting.has(node)) throw new CycleDetectedError();
+            visiting.add(node);
+            stack.push({ node, expanded: true });
+            node.inputs.forEach(n => { if (!memo.has(n)) stack.push({ node: n, expanded: false }); });
+        }
+        return memo.get(root)!;
+    }
+
+    /**
+     * BDD of a node's output from the BDDs of its connected inputs. Mirrors each gate's
+     * compute(), including its behaviour with no inputs; a switch gives its current value.
+     */
+    static gate(bdd: Bdd, node: CircuitNode, sources: number[]): number {
+        const fold = (op: (f: number, g: number) => number, empty: boolean) =>
+            sources.length === 0 ? bdd.constant(empty) : sources.reduce(op);
+        switch (node.type) {
+            case 'INPUT':
+            case 'CLOCK': return bdd.constant(node.value);
+            case 'CONST0': return Bdd.FALSE;
+            case 'CONST1': return Bdd.TRUE;
+            case 'AND': return fold((a, b) => bdd.and(a, b), true);
+            case 'OR': return fold((a, b) => bdd.or(a, b), false);
+            case 'XOR': return fold((a, b) => bdd.xor(a, b), false);
+            case 'NAND': return bdd.not(fold((a, b) => bdd.and(a, b), true));
+            case 'NOR': return bdd.not(fold((a, b) => bdd.or(a, b), false));
+            case 'XNOR': return bdd.not(fold((a, b) => bdd.xor(a, b), false));
+            case 'NOT': return sources.length === 0 ? Bdd.FALSE : bdd.not(sources[0]);
+            // Outputs, buffers and component pins pass their first input through
+            default: return sources[0] ?? Bdd.FALSE;
+        }
+    }
+
+    /** Conjunction fixing every variable to its value in the assignment. */
+    private static cube(bdd: Bdd, inputs: Record<string, boolean>, order: string[]): number {
+        let f = Bdd.TRUE;
+        order.forEach((name, index) => {
+            const v = bdd.variable(index);
+            f = bdd.and(f, inputs[name] ? v : bdd.not(v));
+        });
+        return f;
+    }
+
+    private static requireUnique(nodes: CircuitNode[], message: string) {
+        const labels = nodes.map(n => n.label);
+        const duplicate = labels.find((l, i) => labels.indexOf(l) !== i);
+        if (duplicate !== undefined) throw new EquivalenceError(`${message} "${duplicate}".`);
+    }
+}
@@ -0,0 +1,416 @@
+import { Circuit, CircuitNode, InputNode, OutputNode, ConstantNode, CycleDetectedError, MAX_FAN_IN, Util } from './engine';
+import { LayoutEngine } from './layout';
+
+/**
+ * Boolean expression syntax
+ *
+ *   F = (A & !B) | C ^ D        one output per line (or separated by ';'), "F =" is optional
+ *
+ *   NOT   !A  ~A  ¬A  NOT A  A'     (postfix ' binds tightest)
+ *   AND   A & B  A && B  A * B  A · B  A AND B  A'B  (A)(B)   (juxtaposition is AND)
+ *   XOR   A ^ B  A ⊕ B  A XOR B
+ *   OR    A | B  A || B  A + B  A ∨ B  A OR B
+ *   CONST 0 1 true false
+ *
+ * Precedence, highest first: NOT, AND, XOR, OR; all binary operators are left-associative.
+ * Identifiers start with a letter and may contain letters, digits and '_', so "AB" is one
+ * variable - write "A B", "A·B" or "A'B" for a product.
+ */
+
+export type Expr =
+    | { kind: 'var', name: string }
+    | { kind: 'const', value: boolean }
+    | { kind: 'not', operand: Expr }
+    | { kind: 'and' | 'or' | 'xor', operands: Expr[] };
+
+export interface Statement {
+    name: string;
+    expr: Expr;
+}
+
+export class ExpressionParseError extends Error {
+    line: number;
+    column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.line = line;
+        this.column = column;
+    }
+}
+
+type TokenKind = 'ident' | 'const' | 'not' | 'postnot' | 'and' | 'or' | 'xor' | 'lparen' | 'rparen' | 'assign' | 'end' | 'eof';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    line: number;
+    column: number;
+}
+
+const KEYWORDS: Record<string, TokenKind> = {
+    NOT: 'not', AND: 'and', OR: 'or', XOR: 'xor', TRUE: 'const', FALSE: 'const'
+};
+
+const SYMBOLS: [string, TokenKind][] = [
+    ['&&', 'and'], ['||', 'or'],
+    ['!', 'not'], ['~', 'not'], ['¬', 'not'], ["'", 'postnot'],
+    ['&', 'and'], ['*', 'and'], ['·', 'and'], ['∧', 'and'],
+    ['|', 'or'], ['+', 'or'], ['∨', 'or'],
+    ['^', 'xor'], ['⊕', 'xor'],
+    ['(', 'lparen'], [')', 'rparen'], ['=', 'assign'], [';', 'end']
+];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1, column = 1, i = 0;
+
+    const push = (kind: TokenKind, text: string) => tokens.push({ kind, text, line, column });
+    const advance = (count: number) => { i += count; column += count; };
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (ch === '\n') {
+            push('end', '\n');
+            i++; line++; column = 1;
+            continue;
+        }
+        if (/\s/.test(ch)) { advance(1); continue; }
+        if (ch === '#') {
+            // Comment until end of line
+            while (i < source.length && source[i] !== '\n') advance(1);
+            continue;
+        }
+
+        const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+        if (word) {
+            const upper = word[0].toUpperCase();
+            push(KEYWORDS[upper] ?? 'ident', word[0]);
+            advance(word[0].length);
+            continue;
+        }
+        if (ch === '0' || ch === '1') {
+            push('const', ch);
+            advance(1);
+            continue;
+        }
+
+        const symbol = SYMBOLS.find(([text]) => source.startsWith(text, i));
+        if (!symbol) throw new ExpressionParseError(`unexpected character "${ch}".`, line, column);
+        push(symbol[1], symbol[0]);
+        advance(symbol[0].length);
+    }
+
+    push('eof', '');
+    return tokens;
+}
+
+/** Recursive-descent parser; one Statement per non-empty line. */
+export function parseExpressions(source: string): Statement[] {
+    const tokens = tokenize(source);
+    let pos = 0;
+    const peek = (offset = 0) => tokens[pos + offset];
+    const next = () => tokens[pos++];
+    const fail = (token: Token, message: string): never => {
+        throw new ExpressionParseError(message, token.line, token.column);
+    };
+    const describe = (t: Token) => t.kind === 'eof' ? 'end of input' : t.kind === 'end' ? 'end of line' : `"${t.text}"`;
+
+    // Tokens that may start an operand, used for implicit AND (juxtaposition)
+    const startsOperand = (t: Token) => t.kind === 'ident' || t.kind === 'const' || t.kind === 'not' || t.kind === 'lparen';
+
+    const parseOr = (): Expr => {
+        const operands = [parseXor()];
+        while (peek().kind === 'or') { next(); operands.push(parseXor()); }
+        return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+    };
+
+    const parseXor = (): Expr => {
+        const operands = [parseAnd()];
+        while (peek().kind === 'xor') { next(); operands.push(parseAnd()); }
+        return operands.length === 1 ? operands[0] : { kind: 'xor', operands };
+    };
+
+    const parseAnd = (): Expr => {
+        const operands = [parseUnary()];
+        for (;;) {
+            if (peek().kind === 'and') { next(); operands.push(parseUnary()); }
+            else if (startsOperand(peek())) operands.push(parseUnary());
+            else break;
+        }
+        return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+    };
+
+    const parseUnary = (): Expr => {
+        if (peek().kind === 'not') {
+            next();
+            return { kind: 'not', operand: parseUnary() };
+        }
+        let expr = parsePrimary();
+        while (peek().kind === 'postnot') { next(); expr = { kind: 'not', operand: expr }; }
+        return expr;
+    };
+
+    const parsePrimary = (): Expr => {
+        const t = next();
+        switch (t.kind) {
+            case 'ident': return { kind: 'var', name: t.text };
+            case 'const': return { kind: 'const', value: t.text === '1' || t.text.toUpperCase() === 'TRUE' };
+            case 'lparen': {
+                const inner = parseOr();
+                const close = next();
+                if (close.kind !== 'rparen') fail(close, `expected ")" but found ${describe(close)}.`);
+                return inner;
+            }
+            default: return fail(t, `expected a variable, constant or "(" but found ${describe(t)}.`);
+        }
+    };
+
+    const statements: Statement[] = [];
+    while (peek().kind !== 'eof') {
+        if (peek().kind === 'end') { next(); continue; }
+
+        const start = peek();
+        let name = `F${statements.length}`;
+        if (start.kind === 'ident' && peek(1).kind === 'assign') {
+            name = start.text;
+            pos += 2;
+        }
+
+        const expr = parseOr();
+        const after = peek();
+        if (after.kind !== 'end' && after.kind !== 'eof') fail(after, `unexpected ${describe(after)}.`);
+        if (statements.some(s => s.name === name)) fail(start, `output "${name}" is defined twice.`);
+        statements.push({ name, expr });
+    }
+
+    if (statements.length === 0) throw new ExpressionParseError('no expression given.', 1, 1);
+    return statements;
+}
+
+/** An extracted expression would be too long to show; shared subterms are written out in full. */
+export class ExpressionSizeError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+export class ExpressionCompiler {
+    /** Longest expression fromCircuit writes out, in characters */
+    static MAX_EXPRESSION_LENGTH = 100_000;
+
+    /**
+     * Builds a circuit with one InputNode per variable (sorted by name) and one OutputNode
+     * per statement. Identical subexpressions and inverters are shared.
+     */
+    static toCircuit(statements: Statement[]): Circuit {
+        const circuit = new Circuit();
+        const names = new Set<string>();
+        const collect = (e: Expr) => {
+            if (e.kind === 'var') names.add(e.name);
+            else if (e.kind === 'not') collect(e.operand);
+            else if (e.kind !== 'const') e.operands.forEach(collect);
+        };
+        statements.forEach(s => collect(s.expr));
+
+        const startX = 100;
+        const startY = 100;
+        const inputs = new Map<string, InputNode>();
+        Array.from(names).sort().forEach((name, i) => {
+            const node = new InputNode(`IN_${name}`, startX, startY + i * 100, name);
+            circuit.addNode(node);
+            inputs.set(name, node);
+        });
+
+        // Structural hashing: key -> gate that computes it
+        const built = new Map<string, CircuitNode>();
+        const columns: number[] = [];
+        let gateCount = 0;
+
+        const gate = (type: 'AND' | 'OR' | 'XOR' | 'NOT', sources: CircuitNode[], depth: number): CircuitNode => {
+            const key = `${type}(${sources.map(s => s.id).sort().join(',')})`;
+            const existing = built.get(key);
+            if (existing) return existing;
+
+            const row = columns[depth] = (columns[depth] ?? 0) + 1;
+            const x = startX + depth * 150;
+            const y = startY + (row - 1) * 80;
+            const node = Util.createNode(type, `${type}_${gateCount++}`, x, y)!;
+            node.inputCount = Math.max(node.inputCount, sources.length);
+            circuit.addNode(node);
+            sources.forEach(src => circuit.addConnection(src.id, node.id));
+            built.set(key, node);
+            return node;
+        };
+
+        /** Associative gate over any number of parts, split into a tree above MAX_FAN_IN. */
+        const wideGate = (type: 'AND' | 'OR' | 'XOR', parts: { node: CircuitNode, depth: number }[]): { node: CircuitNode, depth: number } => {
+            while (parts.length > MAX_FAN_IN) {
+                const chunk = parts.splice(0, MAX_FAN_IN);
+                parts.push(wideGate(type, chunk));
+            }
+            const depth = Math.max(...parts.map(p => p.depth)) + 1;
+            return { node: gate(type, parts.map(p => p.node), depth), depth };
+        };
+
+        // Returns the driving node (or a constant) plus its logic depth
+        type Built = { node: CircuitNode, depth: number } | boolean;
+
+        const build = (e: Expr): Built => {
+            switch (e.kind) {
+                case 'var': return { node: inputs.get(e.name)!, depth: 0 };
+                case 'const': return e.value;
+                case 'not': {
+                    const inner = build(e.operand);
+                    if (typeof inner === 'boolean') return !inner;
+                    return { node: gate('NOT', [inner.node], inner.depth + 1), depth: inner.depth + 1 };
+                }
+                case 'and':
+                case 'or': {
+                    const isAnd = e.kind === 'and';
+                    const parts: { node: CircuitNode, depth: number }[] = [];
+                    for (const operand of e.operands) {
+                        const b = build(operand);
+                        if (typeof b === 'boolean') {
+                            // Constant folding: x & 0 = 0, x | 1 = 1, neutral elements vanish
+                            if (b !== isAnd) return b;
+                            continue;
+                        }
+                        if (!parts.some(p => p.node === b.node)) parts.push(b);
+                    }
+                    if (parts.length === 0) return isAnd;
+                    if (parts.length === 1) return parts[0];
+                    return wideGate(isAnd ? 'AND' : 'OR', parts);
+                }
+                case 'xor': {
+                    // x ^ 1 = !x, x ^ 0 = x and x ^ x = 0
+                    let invert = false;
+                    const parts: { node: CircuitNode, depth: number }[] = [];
+                    for (const operand of e.operands) {
+                        const b = build(operand);
+                        if (typeof b === 'boolean') {
+                            invert = invert !== b;
+                            continue;
+                        }
+                        const same = parts.findIndex(p => p.node === b.node);
+                        if (same !== -1) parts.splice(same, 1);
+                        else parts.push(b);
+                    }
+                    if (parts.length === 0) return invert;
+                    const result = parts.length === 1 ? parts[0] : wideGate('XOR', parts);
+                    if (!invert) return result;
+                    return { node: gate('NOT', [result.node], result.depth + 1), depth: result.depth + 1 };
+                }
+            }
+        };
+
+        const results = statements.map(s => ({ name: s.name, result: build(s.expr) }));
+        const outX = startX + (Math.max(0, ...columns.keys()) + 1) * 150;
+
+        results.forEach(({ name, result }, i) => {
+            const out = new OutputNode(`OUT_${name}`, outX, startY + i * 100);
+            out.label = name;
+            circuit.addNode(out);
+
+            let driver: CircuitNode;
+            if (typeof result === 'boolean') {
+                driver = new ConstantNode(`CONST_${name}`, outX - 100, out.y, result);
+                circuit.addNode(driver);
+            } else {
+                driver = result.node;
+            }
+            circuit.addConnection(driver.id, out.id);
+        });
+
+        LayoutEngine.apply(circuit);
+        return circuit;
+    }
+
+    /**
+     * Derives the expression driving each OutputNode by walking its fan-in cone.
+     * Each node's subexpression is built once and shared, but the text repeats it at every
+     * use, so it can grow exponentially with reconvergent fan-out (e.g. an XOR chain).
+     * Throws CycleDetectedError if an output depends on a feedback loop, and
+     * ExpressionSizeError when an expression would exceed MAX_EXPRESSION_LENGTH.
+     */
+    static fromCircuit(circuit: Circuit): { name: string, expression: string }[] {
+        const visiting = new Set<CircuitNode>();
+        const built = new Map<CircuitNode, Expr>();
+
+        const walk = (node: CircuitNode): Expr => {
+            const known = built.get(node);
+            if (known) return known;
+            if (visiting.has(node)) throw new CycleDetectedError();
+            visiting.add(node);
+            const expr = build(node);
+            visiting.delete(node);
+            built.set(node, expr);
+            return expr;
+        };
+
+        const build = (node: CircuitNode): Expr => {
+            const sources = node.inputs.map(walk);
+            // Mirrors each gate's compute(), including its behaviour with no inputs
+            const nary = (kind: 'and' | 'or' | 'xor', empty: boolean): Expr =>
+                sources.length === 0 ? { kind: 'const', value: empty } : sources.length === 1 ? sources[0] : { kind, operands: sources };
+            const not = (operand: Expr): Expr =>
+                operand.kind === 'const' ? { kind: 'const', value: !operand.value } : { kind: 'not', operand };
+
+            switch (node.type) {
+                case 'INPUT':
+                case 'CLOCK': return { kind: 'var', name: node.label };
+                case 'CONST0': return { kind: 'const', value: false };
+                case 'CONST1': return { kind: 'const', value: true };
+                case 'AND': return nary('and', true);
+                case 'OR': return nary('or', false);
+                case 'XOR': return nary('xor', false);
+                case 'NAND': return not(nary('and', true));
+                case 'NOR': return not(nary('or', false));
+                case 'XNOR': return not(nary('xor', false));
+                case 'NOT': return sources.length === 0 ? { kind: 'const', value: false } : not(sources[0]);
+                // Outputs, buffers and component pins pass their first input through
+                default: return sources[0] ?? { kind: 'const', value: false };
+            }
+        };
+
+        // Upper bound of the formatted length, worked out without writing the text
+        const lengths = new Map<Expr, number>();
+        const length = (e: Expr): number => {
+            let n = lengths.get(e);
+            if (n !== undefined) return n;
+            switch (e.kind) {
+                case 'var': n = e.name.length; break;
+                case 'const': n = 1; break;
+                case 'not': n = 3 + length(e.operand); break;
+                default: n = 2 + e.operands.reduce((sum, o) => sum + 3 + length(o), 0);
+            }
+            lengths.set(e, n);
+            return n;
+        };
+
+        return Util.getNodesByType<OutputNode>(circuit, 'OUTPUT').map(out => {
+            const expr = walk(out);
+            if (length(expr) > ExpressionCompiler.MAX_EXPRESSION_LENGTH) {
+                throw new ExpressionSizeError(`The expression of output "${out.label}" would run past ${ExpressionCompiler.MAX_EXPRESSION_LENGTH} characters, as shared gates are written out at every use.`);
+            }
+            return { name: out.label, expression: ExpressionCompiler.format(expr) };
+        });
+    }
+
+    /** Formats with "!", "&", "^", "|" and only the parentheses precedence requires. */
+    static format(e: Expr, parentPrecedence: number = 0): string {
+        const precedence = { or: 1, xor: 2, and: 3 };
+        switch (e.kind) {
+            case 'var': return e.name;
+            case 'const': return e.value ? '1' : '0';
+            case 'not': return `!${ExpressionCompiler.format(e.operand, 4)}`;
+            default: {
+                const p = precedence[e.kind];
+                const op = { or: ' | ', xor: ' ^ ', and: ' & ' }[e.kind];
+                const text = e.operands.map(o => ExpressionCompiler.format(o, p)).join(op);
+                return p < parentPrecedence ? `(${text})` : text;
+            }
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import { Circuit, CircuitNode, InputNode, OutputNode, Util } from './engine';
+import { Bdd, BddLimitError } from './bdd';
+import { EquivalenceChecker } from './equivalence';
+import { DesignRuleChecker } from './drc';
+import { Testbench, TestVectorError, type TestVectors } from './testbench';
+
+/** A node output held at one value whatever its inputs do. */
+export interface Fault {
+    node: CircuitNode;
+    stuckAt: boolean;
+}
+
+export interface FaultReport {
+    faults: Fault[];
+    /** Applied input values, in the column order of FaultSimulator.inputs */
+    vectors: boolean[][];
+    /** For each vector, the indices of the faults it detects */
+    detects: number[][];
+    /** Per fault: some vector makes an output differ from the fault-free circuit */
+    detected: boolean[];
+    /** Per fault: no input combination at all can detect it; null when the circuit is too large for BDDs */
+    redundant: boolean[] | null;
+    /** Detected faults as a share of all faults (1 when there are none) */
+    coverage: number;
+}
+
+const WORD = 32;
+
+/**
+ * Single stuck-at fault analysis of a combinational circuit.
+ *
+ * Every node output except component instances and their pins (which are wires) can be
+ * stuck at 0 or at 1. A vector detects a fault when some OUTPUT differs from the
+ * fault-free circuit. Vectors are simulated 32 at a time, one per bit of a word, and
+ * only the part of the evaluation order after the faulty node is recomputed.
+ * Redundancy and test generation use BDDs: a fault is detectable exactly when the
+ * "good XOR faulty" function of some output is satisfiable.
+ *
+ * Gates follow the simulator's binary semantics. The circuit itself is never modified.
+ */
+export class FaultSimulator {
+    /** Primary inputs, sorted by label as in TruthTable */
+    readonly inputs: InputNode[];
+    readonly outputs: OutputNode[];
+    readonly faults: Fault[];
+
+    private order: readonly CircuitNode[];
+    private slot = new Map<CircuitNode, number>();
+    /** Column of each primary input, which is also its BDD variable */
+    private column: Map<CircuitNode, number>;
+    /** BDD of "the fault changes some output", per fault; built on first use */
+    private differences: number[] | null = null;
+    /** Set once the BDDs have hit their limit, so later calls fail at once */
+    private bddLimit: BddLimitError | null = null;
+    private bdd = new Bdd();
+
+    /** Throws CycleDetectedError for circuits with feedback loops. */
+    constructor(circuit: Circuit) {
+        const byLabel = (a: CircuitNode, b: CircuitNode) => a.label.localeCompare(b.label, undefined, { numeric: true });
+        this.inputs = Util.getNodesByType<InputNode>(circuit, 'INPUT').sort(byLabel);
+        this.outputs = Util.getNodesByType<OutputNode>(circuit, 'OUTPUT').sort(byLabel);
+        this.column = new Map(this.inputs.map((n, i) => [n as CircuitNode, i]));
+        this.order = circuit.getEvaluationOrder();
+        this.order.forEach((node, i) => this.slot.set(node, i));
+        this.faults = this.order
+            .filter(node => node.type !== 'COMPONENT' && node.type !== 'PIN')
+            .flatMap(node => [{ node, stuckAt: false }, { node, stuckAt: true }]);
+    }
+
+    /** "Half Adder.XOR stuck-at-1" */
+    static describe(fault: Fault): string {
+        return `${DesignRuleChecker.describe(fault.node)} stuck-at-${fault.stuckAt ? 1 : 0}`;
+    }
+
+    /**
+     * Vectors of a test-vector file in input column order; don't-care inputs expand to
+     * both values and inputs the file does not mention are 0. Expected outputs are ignored.
+     */
+    vectorsFrom(tests: TestVectors): boolean[][] {
+        const columns = tests.inputs.map(label => {
+            const index = this.inputs.findIndex(n => n.label === label);
+            if (index === -1) throw new TestVectorError(`the circuit has no input labelled "${label}".`);
+            return index;
+        });
+        const vectors: boolean[][] = [];
+        tests.vectors.forEach(vector => {
+            const free = Testbench.dontCares(vector);
+            for (let combination = 0; combination < 2 ** free.length; combination++) {
+                const applied = new Array(this.inputs.length).fill(false);
+                vector.inputs.forEach((v, i) => { applied[columns[i]] = v ?? !!((combination >> free.indexOf(i)) & 1); });
+                vectors.push(applied);
+            }
+        });
+        return vectors;
+    }
+
+    /** Fault-simulates the vectors against every fault; redundancy is left unknown when BDDs run out. */
+    simulate(vectors: boolean[][]): FaultReport {
+        const detects: number[][] = vectors.map(() => []);
+        const detected = new Array(this.faults.length).fill(false);
+
+        for (let base = 0; base < vectors.length; base += WORD) {
+            const batch = vectors.slice(base, base + WORD);
+            const good = this.evaluateWord(batch, null);
+            this.faults.forEach((fault, f) => {
+                const lanes = this.detectingLanes(batch, good, fault);
+                if (lanes === 0) return;
+                detected[f] = true;
+                batch.forEach((_, lane) => { if ((lanes >>> lane) & 1) detects[base + lane].push(f); });
+            });
+        }
+
+        let redundant: boolean[] | null = null;
+        try {
+            redundant = this.getDifferences().map(d => d === Bdd.FALSE);
+        } catch (e) {
+            if (!(e instanceof BddLimitError)) throw e;
+        }
+        const count = detected.filter(d => d).length;
+        return {
+            faults: this.faults,
+            vectors,
+            detects,
+            detected,
+            redundant,
+            coverage: this.faults.length === 0 ? 1 : count / this.faults.length
+        };
+    }
+
+    /**
+     * A small vector set detecting every detectable fault: one vector is derived for each
+     * fault no earlier vector detects, then vectors that add nothing, checked from the
+     * last one back, are dropped. Not guaranteed minimum, but no vector can be removed.
+     */
+    generateTests(): boolean[][] {
+        const differences = this.getDifferences();
+        const covered = new Array(this.faults.length).fill(false);
+        const vectors: boolean[][] = [];
+
+        differences.forEach((difference, f) => {
+            if (covered[f] || difference === Bdd.FALSE) return;
+            const assignment = this.bdd.satisfy(difference)!;
+            const vector = this.inputs.map((_, i) => assignment.get(i) ?? false);
+            vectors.push(vector);
+            const good = this.evaluateWord([vector], null);
+            this.faults.forEach((fault, g) => {
+                if (!covered[g] && this.detectingLanes([vector], good, fault) !== 0) covered[g] = true;
+            });
+        });
+
+        // Reverse-order compaction: later vectors target the hard faults, so keep those first
+        const detects = this.simulate(vectors).detects;
+        const needed = new Array(this.faults.length).fill(false);
+        const kept: boolean[][] = [];
+        for (let v = vectors.length - 1; v >= 0; v--) {
+            if (!detects[v].some(f => !needed[f])) continue;
+            detects[v].forEach(f => { needed[f] = true; });
+            kept.unshift(vectors[v]);
+        }
+        return kept;
+    }
+
+    /** Lanes of the batch in which the fault changes some output. */
+    private detectingLanes(batch: boolean[][], good: Int32Array, fault: Fault): number {
+        const faulty = this.evaluateWord(batch, fault, good);
+        const used = batch.length === WORD ? -1 : (1 << batch.length) - 1;
+        let lanes = 0;
+        this.outputs.forEach(out => {
+            const k = this.slot.get(out)!;
+            lanes |= good[k] ^ faulty[k];
+        });
+        return lanes & used;
+    }
+
+    /**
+     * Signals of up to 32 vectors, one per bit.
+     * @param good Fault-free signals of the same batch; nodes before the faulty one are copied from it
+     */
+    private evaluateWord(batch: boolean[][], fault: Fault | null, good?: Int32Array): Int32Array {
+        const values = new Int32Array(this.order.length);
+        let start = 0;
+        if (fault && good) {
+            start = this.slot.get(fault.node)!;
+            values.set(good.subarray(0, start));
+        }
+
+        for (let k = start; k < this.order.length; k++) {
+            const node = this.order[k];
+            if (fault && node === fault.node) {
+                values[k] = fault.stuckAt ? -1 : 0;
+                continue;
+            }
+            const sources = node.incoming.map(c => values[this.slot.get(c.from)!]);
+            const fold = (op: (a: number, b: number) => number, empty: number) =>
+                sources.length === 0 ? empty : sources.reduce(op);
+            let v: number;
+            switch (node.type) {
+                case 'INPUT': {
+                    const i = this.column.get(node);
+                    if (i === undefined) {
+                        // Switches inside component instances keep their value
+                        v = node.value ? -1 : 0;
+                    } else {
+                        v = 0;
+                        batch.forEach((vector, lane) => { if (vector[i]) v |= 1 << lane; });
+                    }
+                    break;
+                }
+                case 'CLOCK':
+                case 'CONST0':
+                case 'CONST1': v = node.value ? -1 : 0; break;
+                case 'AND': v = fold((a, b) => a & b, -1); break;
+                case 'OR': v = fold((a, b) => a | b, 0); break;
+                case 'XOR': v = fold((a, b) => a ^ b, 0); break;
+                case 'NAND': v = ~fold((a, b) => a & b, -1); break;
+                case 'NOR': v = ~fold((a, b) => a | b, 0); break;
+                case 'XNOR': v = ~fold((a, b) => a ^ b, 0); break;
+                case 'NOT': v = sources.length === 0 ? 0 : ~sources[0]; break;
+                case 'COMPONENT': v = 0; break;
+                // Outputs, buffers and component pins pass their first input through
+                default: v = sources[0] ?? 0;
+            }
+            values[k] = v;
+        }
+        return values;
+    }
+
+    /** Throws BddLimitError when the circuit is too large for BDDs. */
+    private getDifferences(): number[] {
+        if (this.differences) return this.differences;
+        if (this.bddLimit) throw this.bddLimit;
+        try {
+            this.differences = this.buildDifferences();
+        } catch (e) {
+            if (e instanceof BddLimitError) this.bddLimit = e;
+            throw e;
+        }
+        return this.differences;
+    }
+
+    private buildDifferences(): number[] {
+        const bdd = this.bdd;
+        const build = (node: CircuitNode, value: (n: CircuitNode) => number) => {
+            const index = this.column.get(node);
+            return index !== undefined
+                ? bdd.variable(index)
+                : EquivalenceChecker.gate(bdd, node, node.incoming.map(c => value(c.from)));
+        };
+
+        const good = new Map<CircuitNode, number>();
+        this.order.forEach(node => good.set(node, build(node, n => good.get(n)!)));
+
+        return this.faults.map(fault => {
+            // Only the fan-out of the faulty node changes; those nodes overlay the good values
+            const changed = new Map<CircuitNode, number>([[fault.node, bdd.constant(fault.stuckAt)]]);
+            const faulty = (n: CircuitNode) => changed.get(n) ?? good.get(n)!;
+            for (let k = this.slot.get(fault.node)! + 1; k < this.order.length; k++) {
+                const node = this.order[k];
+                if (!node.incoming.some(c => changed.has(c.from))) continue;
+                const value = build(node, faulty);
+                if (value !== good.get(node)) changed.set(node, value);
+            }
+            return this.outputs.reduce((any, out) => bdd.or(any, bdd.xor(good.get(out)!, faulty(out))), Bdd.FALSE);
+        });
+    }
+}
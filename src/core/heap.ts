@@ -0,0 +1,50 @@
+/** Binary min-heap ordered by a comparison function. */
+export class MinHeap<T> {
+    private items: T[] = [];
+    private compare: (a: T, b: T) => number;
+
+    constructor(compare: (a: T, b: T) => number) {
+        this.compare = compare;
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    /** Smallest item, without removing it. */
+    peek(): T | undefined {
+        return this.items[0];
+    }
+
+    push(item: T) {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.compare(items[parent], items[i]) <= 0) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last !== undefined) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1, r = l + 1;
+                let smallest = i;
+                if (l < items.length && this.compare(items[l], items[smallest]) < 0) smallest = l;
+                if (r < items.length && this.compare(items[r], items[smallest]) < 0) smallest = r;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
@@ -0,0 +1,451 @@
+import { Circuit, CircuitNode, ClockNode, ComponentNode, type Connection, type NodeType, type SimulationMode } from './engine';
+import type { LogicSystem } from './logic';
+
+/**
+ * A reversible edit of a Circuit.
+ * Commands only touch the model; the UI re-syncs from the circuit after undo/redo.
+ */
+export interface Command {
+    label: string;
+    execute(): void;
+    undo(): void;
+    /** Absorb a command that directly follows this one (e.g. the next step of a drag). */
+    merge?(next: Command): boolean;
+}
+
+export class CommandHistory {
+    private undoStack: Command[] = [];
+    private redoStack: Command[] = [];
+    private limit: number;
+
+    constructor(limit: number = 100) {
+        this.limit = limit;
+    }
+
+    /** Runs a command and records it. */
+    execute(command: Command) {
+        command.execute();
+        this.record(command);
+    }
+
+    /** Records a command whose effect has already been applied (live drags). */
+    record(command: Command) {
+        this.redoStack = [];
+
+        const last = this.undoStack[this.undoStack.length - 1];
+        if (last?.merge && last.merge(command)) return;
+
+        this.undoStack.push(command);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+    }
+
+    undo(): Command | null {
+        const command = this.undoStack.pop();
+        if (!command) return null;
+        command.undo();
+        this.redoStack.push(command);
+        return command;
+    }
+
+    redo(): Command | null {
+        const command = this.redoStack.pop();
+        if (!command) return null;
+        command.execute();
+        this.undoStack.push(command);
+        return command;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
+
+// --- Circuit Commands ---
+
+export class AddNodeCommand implements Command {
+    label = 'Add component';
+    private circuit: Circuit;
+    private node: CircuitNode;
+
+    constructor(circuit: Circuit, node: CircuitNode) {
+        this.circuit = circuit;
+        this.node = node;
+    }
+
+    execute() {
+        this.circuit.addNode(this.node);
+    }
+
+    undo() {
+        this.circuit.removeNode(this.node.id);
+    }
+}
+
+export class ConnectCommand implements Command {
+    label = 'Connect wire';
+    private circuit: Circuit;
+    private fromId: string;
+    private toId: string;
+    private toPort: number;
+    private fromPort: number;
+
+    constructor(circuit: Circuit, fromId: string, toId: string, toPort: number, fromPort: number = 0) {
+        this.circuit = circuit;
+        this.fromId = fromId;
+        this.toId = toId;
+        this.toPort = toPort;
+        this.fromPort = fromPort;
+    }
+
+    /** Throws ConnectionError (and changes nothing) if the port cannot take the wire. */
+    execute() {
+        this.circuit.addConnection(this.fromId, this.toId, this.toPort, this.fromPort);
+    }
+
+    undo() {
+        this.circuit.removeConnection(this.toId, this.toPort);
+    }
+}
+
+/**
+ * Replaces the bend points of a wire. The wire is found again by its input port,
+ * since undoing a deletion attaches a new wire object to that port.
+ */
+export class SetBendsCommand implements Command {
+    label = 'Bend wire';
+    private circuit: Circuit;
+    private toId: string;
+    private toPort: number;
+    private from: { x: number, y: number }[];
+    private to: { x: number, y: number }[];
+
+    constructor(circuit: Circuit, wire: Connection, from: { x: number, y: number }[], to: { x: number, y: number }[]) {
+        this.circuit = circuit;
+        this.toId = wire.to.id;
+        this.toPort = wire.toPort;
+        this.from = from;
+        this.to = to;
+    }
+
+    execute() {
+        this.apply(this.to);
+    }
+
+    undo() {
+        this.apply(this.from);
+    }
+
+    private apply(bends: { x: number, y: number }[]) {
+        const wire = this.circuit.nodes.get(this.toId)?.inputAt(this.toPort);
+        if (wire) wire.bends = bends.length > 0 ? bends.map(b => ({ ...b })) : undefined;
+    }
+}
+
+/**
+ * Deletes top-level nodes (with their subtrees) and individual wires.
+ * Every wire cut by the deletion is remembered so undo can restore it.
+ */
+export class RemoveCommand implements Command {
+    label = 'Delete';
+    private circuit: Circuit;
+    private nodes: CircuitNode[];
+    private wires: Connection[];
+
+    constructor(circuit: Circuit, nodes: CircuitNode[], wires: Connection[]) {
+        this.circuit = circuit;
+        this.nodes = nodes;
+
+        // Wires inside a component instance stay attached to it; all others are cut
+        const owner = new Map<CircuitNode, CircuitNode>();
+        nodes.forEach(n => {
+            owner.set(n, n);
+            if (n instanceof ComponentNode) n.descendants().forEach(d => owner.set(d, n));
+        });
+        const cut = new Set(wires);
+        owner.forEach((_, n) => {
+            [...n.incoming, ...n.outgoing].forEach(w => {
+                const a = owner.get(w.from);
+                if (!a || a !== owner.get(w.to)) cut.add(w);
+            });
+        });
+        this.wires = Array.from(cut);
+    }
+
+    execute() {
+        this.wires.forEach(w => this.circuit.removeConnection(w.to.id, w.toPort));
+        this.nodes.forEach(n => this.circuit.removeNode(n.id));
+    }
+
+    /** Puts the nodes back and reattaches every cut wire that is not already in place. */
+    undo() {
+        this.nodes.forEach(n => this.circuit.addNode(n));
+        this.wires.forEach(w => {
+            if (w.to.inputAt(w.toPort)) return;
+            const wire = this.circuit.addConnection(w.from.id, w.to.id, w.toPort, w.fromPort);
+            if (w.bends) wire.bends = w.bends;
+        });
+    }
+}
+
+/** Adds a group of nodes wired among themselves (paste); the inverse of removing them. */
+export class AddNodesCommand implements Command {
+    label = 'Paste';
+    private removal: RemoveCommand;
+
+    constructor(circuit: Circuit, nodes: CircuitNode[]) {
+        this.removal = new RemoveCommand(circuit, nodes, []);
+    }
+
+    execute() {
+        this.removal.undo();
+    }
+
+    undo() {
+        this.removal.execute();
+    }
+}
+
+/** Changes the number of input pins of a multi-input gate. */
+export class SetInputCountCommand implements Command {
+    label = 'Change inputs';
+    private node: CircuitNode;
+    private from: number;
+    private to: number;
+
+    constructor(node: CircuitNode, count: number) {
+        this.node = node;
+        this.from = node.inputCount;
+        this.to = count;
+    }
+
+    execute() {
+        this.node.inputCount = this.to;
+    }
+
+    undo() {
+        this.node.inputCount = this.from;
+    }
+}
+
+export class SetClockPeriodCommand implements Command {
+    label = 'Change clock period';
+    private clock: ClockNode;
+    private from: number;
+    private to: number;
+
+    constructor(clock: ClockNode, period: number) {
+        this.clock = clock;
+        this.from = clock.period;
+        this.to = period;
+    }
+
+    execute() {
+        this.clock.period = this.to;
+    }
+
+    undo() {
+        this.clock.period = this.from;
+    }
+}
+
+export class SetSimulationModeCommand implements Command {
+    label = 'Change simulation mode';
+    private circuit: Circuit;
+    private from: SimulationMode;
+    private to: SimulationMode;
+
+    constructor(circuit: Circuit, mode: SimulationMode) {
+        this.circuit = circuit;
+        this.from = circuit.mode;
+        this.to = mode;
+    }
+
+    execute() {
+        this.circuit.mode = this.to;
+    }
+
+    undo() {
+        this.circuit.mode = this.from;
+    }
+}
+
+export class SetLogicSystemCommand implements Command {
+    label = 'Change logic system';
+    private circuit: Circuit;
+    private from: LogicSystem;
+    private to: LogicSystem;
+
+    constructor(circuit: Circuit, logic: LogicSystem) {
+        this.circuit = circuit;
+        this.from = circuit.logic;
+        this.to = logic;
+    }
+
+    execute() {
+        this.circuit.logic = this.to;
+    }
+
+    undo() {
+        this.circuit.logic = this.from;
+    }
+}
+
+export class SetDelaysCommand implements Command {
+    label = 'Change delays';
+    private circuit: Circuit;
+    private from: Partial<Record<NodeType, number>>;
+    private to: Partial<Record<NodeType, number>>;
+
+    constructor(circuit: Circuit, delays: Partial<Record<NodeType, number>>) {
+        this.circuit = circuit;
+        this.from = { ...circuit.delays };
+        this.to = { ...delays };
+    }
+
+    execute() {
+        this.circuit.delays = { ...this.to };
+    }
+
+    undo() {
+        this.circuit.delays = { ...this.from };
+    }
+}
+
+export interface NodeMove {
+    node: CircuitNode;
+    from: { x: number, y: number };
+    to: { x: number, y: number };
+}
+
+/** The node a wire end is drawn on: pins of an instance sit on the instance. */
+const placedOn = (node: CircuitNode): CircuitNode =>
+    node.type === 'PIN' && node.parent ? node.parent : node;
+
+/** Wires with an end on one of the nodes, including the pins of instances among them. */
+const wiresOf = (nodes: CircuitNode[]): Connection[] => {
+    const wires = new Set<Connection>();
+    nodes.forEach(node => {
+        const ends = node instanceof ComponentNode ? [...node.inputPins, ...node.outputPins] : [node];
+        ends.forEach(end => [...end.incoming, ...end.outgoing].forEach(w => wires.add(w)));
+    });
+    return Array.from(wires);
+};
+
+/**
+ * Moves nodes. Bends of a wire whose two ends move by the same offset move along, so a
+ * dragged group keeps its routing; other bends stay where they are.
+ */
+export class MoveNodesCommand implements Command {
+    label = 'Move';
+    private moves: NodeMove[];
+    private gesture: object;
+
+    /**
+     * @param gesture Identifies one continuous drag; moves sharing it collapse into a single step.
+     */
+    constructor(moves: NodeMove[], gesture: object) {
+        this.moves = moves;
+        this.gesture = gesture;
+    }
+
+    execute() {
+        this.moves.forEach(m => { m.node.x = m.to.x; m.node.y = m.to.y; });
+        this.shiftBends(1);
+    }
+
+    undo() {
+        this.moves.forEach(m => { m.node.x = m.from.x; m.node.y = m.from.y; });
+        this.shiftBends(-1);
+    }
+
+    merge(next: Command): boolean {
+        if (!(next instanceof MoveNodesCommand) || next.gesture !== this.gesture) return false;
+        next.moves.forEach(nm => {
+            const existing = this.moves.find(m => m.node === nm.node);
+            if (existing) existing.to = { ...nm.to };
+            else this.moves.push({ node: nm.node, from: { ...nm.from }, to: { ...nm.to } });
+        });
+        return true;
+    }
+
+    private shiftBends(direction: 1 | -1) {
+        const offsets = new Map(this.moves.map(m => [m.node, { x: m.to.x - m.from.x, y: m.to.y - m.from.y }]));
+        wiresOf(this.moves.map(m => m.node)).forEach(wire => {
+            const a = offsets.get(placedOn(wire.from));
+            const b = offsets.get(placedOn(wire.to));
+            if (!wire.bends || !a || !b || a.x !== b.x || a.y !== b.y) return;
+            wire.bends = wire.bends.map(p => ({ x: p.x + direction * a.x, y: p.y + direction * a.y }));
+        });
+    }
+}
+
+/**
+ * Moves nodes to a computed layout (Tidy Layout). Bends were drawn for the old placement,
+ * so those of every wire touching a moved node are cleared, and restored on undo.
+ */
+export class LayoutCommand implements Command {
+    label = 'Tidy layout';
+    private circuit: Circuit;
+    private move: MoveNodesCommand;
+    /** Bends cleared by this command, by the input port the wire drives */
+    private bends: { toId: string, toPort: number, bends: { x: number, y: number }[] }[];
+
+    constructor(circuit: Circuit, moves: NodeMove[]) {
+        this.circuit = circuit;
+        this.move = new MoveNodesCommand(moves, {});
+        this.bends = wiresOf(moves.map(m => m.node))
+            .filter(w => w.bends && w.bends.length > 0)
+            .map(w => ({ toId: w.to.id, toPort: w.toPort, bends: w.bends!.map(b => ({ ...b })) }));
+    }
+
+    execute() {
+        this.bends.forEach(b => {
+            const wire = this.circuit.nodes.get(b.toId)?.inputAt(b.toPort);
+            if (wire) wire.bends = undefined;
+        });
+        this.move.execute();
+    }
+
+    undo() {
+        this.move.undo();
+        this.bends.forEach(b => {
+            const wire = this.circuit.nodes.get(b.toId)?.inputAt(b.toPort);
+            if (wire) wire.bends = b.bends.map(p => ({ ...p }));
+        });
+    }
+}
+
+/**
+ * Swaps the whole content of a circuit (Clear All, loading a synthesized circuit).
+ * Swapping is its own inverse, so execute and undo are the same operation.
+ */
+export class ReplaceCircuitCommand implements Command {
+    label: string;
+    private circuit: Circuit;
+    private other: Circuit;
+
+    constructor(circuit: Circuit, other: Circuit, label: string = 'Replace circuit') {
+        this.circuit = circuit;
+        this.other = other;
+        this.label = label;
+    }
+
+    execute() {
+        this.circuit.swapContents(this.other);
+    }
+
+    undo() {
+        this.circuit.swapContents(this.other);
+    }
+}
@@ -0,0 +1,58 @@
+import { LogicMinimizer, type Implicant } from './minimize';
+
+/**
+ * Cell layout of a Karnaugh map over 2 to 6 variables.
+ * The first half of the variables (rounded down) label the rows and the rest the
+ * columns, so variable 0 stays the high bit of each cell's minterm as in SynthesisEngine.
+ * Both axes count in reflected Gray code: neighbouring cells, including the first and
+ * last of a row or column, differ in exactly one variable. With three variables on an
+ * axis (5 and 6 variables) cells mirrored about the middle of the axis are adjacent too,
+ * so a group can show up as two separate blocks.
+ */
+export class KarnaughMap {
+    static MIN_VARIABLES = 2;
+    static MAX_VARIABLES = 6;
+
+    readonly variables: number;
+    readonly rowBits: number;
+    readonly colBits: number;
+    /** Row (and column) number to the value of the row (column) variables */
+    readonly rowCodes: number[];
+    readonly colCodes: number[];
+
+    constructor(variables: number) {
+        if (variables < KarnaughMap.MIN_VARIABLES || variables > KarnaughMap.MAX_VARIABLES) {
+            throw new RangeError(`A Karnaugh map needs ${KarnaughMap.MIN_VARIABLES} to ${KarnaughMap.MAX_VARIABLES} variables, not ${variables}.`);
+        }
+        this.variables = variables;
+        this.rowBits = Math.floor(variables / 2);
+        this.colBits = variables - this.rowBits;
+        this.rowCodes = KarnaughMap.gray(this.rowBits);
+        this.colCodes = KarnaughMap.gray(this.colBits);
+    }
+
+    /** Reflected Gray code sequence over `bits` bits, e.g. 00 01 11 10. */
+    static gray(bits: number): number[] {
+        return Array.from({ length: 1 << bits }, (_, i) => i ^ (i >> 1));
+    }
+
+    /** Truth-table row shown in a cell. */
+    minterm(row: number, col: number): number {
+        return (this.rowCodes[row] << this.colBits) | this.colCodes[col];
+    }
+
+    /** Axis heading such as "01" for row `row`. */
+    rowLabel(row: number): string {
+        return this.rowCodes[row].toString(2).padStart(this.rowBits, '0');
+    }
+
+    colLabel(col: number): string {
+        return this.colCodes[col].toString(2).padStart(this.colBits, '0');
+    }
+
+    /** Indices of the terms of `cover` that contain a cell. */
+    groupsAt(cover: Implicant[], row: number, col: number): number[] {
+        const m = this.minterm(row, col);
+        return cover.flatMap((imp, i) => LogicMinimizer.covers(imp, m) ? [i] : []);
+    }
+}
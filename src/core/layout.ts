@@ -0,0 +1,235 @@
+import { Circuit, CircuitNode, ComponentNode } from './engine';
+
+export interface LayoutOptions {
+    /** Top-left corner of the laid out circuit */
+    originX?: number;
+    originY?: number;
+    /** Horizontal space between columns */
+    columnGap?: number;
+    /** Vertical space between nodes of one column */
+    rowGap?: number;
+    /** Barycenter passes used to reduce wire crossings */
+    sweeps?: number;
+}
+
+/**
+ * Layered ("Sugiyama-style") placement of the top-level nodes of a circuit.
+ * Inputs go in the first column, outputs in the last, and every gate in the column
+ * of its longest path from an input; within a column, nodes are ordered by the
+ * position of their neighbours to keep wires from crossing.
+ * Component instances are placed as single boxes; their inner nodes are untouched.
+ */
+export class LayoutEngine {
+    /** Box size of a node as drawn on the canvas; multi-input gates grow with their number of pins. */
+    static nodeSize(node: CircuitNode): { width: number, height: number } {
+        if (node instanceof ComponentNode) {
+            const pins = Math.max(node.inputPins.length, node.outputPins.length, 1);
+            return { width: 100, height: Math.max(40, pins * 20 + 10) };
+        }
+        if (node.type === 'OUTPUT') return { width: 40, height: 40 };
+        return { width: 60, height: Math.max(40, node.inputCount * 16 + 8) };
+    }
+
+    /**
+     * Moves every top-level node to its computed position and clears the bends of the
+     * top-level wires, which were drawn for the old placement. Not undoable; the editor
+     * goes through LayoutCommand instead.
+     */
+    static apply(circuit: Circuit, options: LayoutOptions = {}) {
+        LayoutEngine.compute(circuit, options).forEach((pos, node) => {
+            node.x = pos.x;
+            node.y = pos.y;
+        });
+        circuit.nodes.forEach(node => {
+            const placedOn = node.type === 'PIN' && node.parent ? node.parent : node;
+            if (!placedOn.parent) node.incoming.forEach(wire => { wire.bends = undefined; });
+        });
+    }
+
+    /** New positions for the top-level nodes, without moving anything. */
+    static compute(circuit: Circuit, options: LayoutOptions = {}): Map<CircuitNode, { x: number, y: number }> {
+        const originX = options.originX ?? 100;
+        const originY = options.originY ?? 100;
+        const columnGap = options.columnGap ?? 100;
+        const rowGap = options.rowGap ?? 40;
+        const sweeps = options.sweeps ?? 4;
+
+        // Current vertical order seeds the ordering, so tidying keeps the user's arrangement
+        const nodes = Array.from(circuit.nodes.values())
+            .filter(n => !n.parent)
+            .sort((a, b) => a.y - b.y || a.x - b.x);
+        if (nodes.length === 0) return new Map();
+
+        const { preds, succs } = LayoutEngine.topLevelEdges(circuit, nodes);
+        const layers = LayoutEngine.assignLayers(nodes, preds, succs);
+        LayoutEngine.reduceCrossings(layers, preds, succs, sweeps);
+
+        // Columns are as wide as their widest node and centred on the tallest column
+        const sizes = new Map(nodes.map(n => [n, LayoutEngine.nodeSize(n)]));
+        const heights = layers.map(layer =>
+            layer.reduce((sum, n) => sum + sizes.get(n)!.height, 0) + rowGap * Math.max(0, layer.length - 1));
+        const tallest = Math.max(...heights);
+
+        const positions = new Map<CircuitNode, { x: number, y: number }>();
+        let x = originX;
+        layers.forEach((layer, i) => {
+            const width = Math.max(0, ...layer.map(n => sizes.get(n)!.width));
+            let y = originY + (tallest - heights[i]) / 2;
+            layer.forEach(n => {
+                const size = sizes.get(n)!;
+                // Narrow nodes are centred in their column
+                positions.set(n, { x: Math.round(x + (width - size.width) / 2), y: Math.round(y) });
+                y += size.height + rowGap;
+            });
+            x += width + columnGap;
+        });
+        return positions;
+    }
+
+    /**
+     * Wires between top-level nodes; a wire to or from a node inside an instance
+     * counts as attached to that instance. Duplicates and self-loops are dropped.
+     */
+    private static topLevelEdges(circuit: Circuit, nodes: CircuitNode[]) {
+        const preds = new Map<CircuitNode, CircuitNode[]>(nodes.map(n => [n, []]));
+        const succs = new Map<CircuitNode, CircuitNode[]>(nodes.map(n => [n, []]));
+        const top = (n: CircuitNode): CircuitNode => {
+            while (n.parent) n = n.parent;
+            return n;
+        };
+
+        circuit.nodes.forEach(node => {
+            node.incoming.forEach(wire => {
+                const u = top(wire.from);
+                const v = top(node);
+                if (u === v || succs.get(u)!.includes(v)) return;
+                succs.get(u)!.push(v);
+                preds.get(v)!.push(u);
+            });
+        });
+        return { preds, succs };
+    }
+
+    /**
+     * Column of each node: longest path from a source, ignoring feedback edges.
+     * Inputs are pinned to the first column and outputs to the last.
+     */
+    private static assignLayers(nodes: CircuitNode[], preds: Map<CircuitNode, CircuitNode[]>, succs: Map<CircuitNode, CircuitNode[]>): CircuitNode[][] {
+        // Depth-first search marks edges that close a loop so the rest is acyclic
+        const backEdges = new Set<string>();
+        const state = new Map<CircuitNode, 'active' | 'done'>();
+        const key = (u: CircuitNode, v: CircuitNode) => `${u.id}\u0000${v.id}`;
+        const visit = (root: CircuitNode) => {
+            const stack: { node: CircuitNode, next: number }[] = [{ node: root, next: 0 }];
+            state.set(root, 'active');
+            while (stack.length > 0) {
+                const frame = stack[stack.length - 1];
+                const out = succs.get(frame.node)!;
+                if (frame.next >= out.length) {
+                    state.set(frame.node, 'done');
+                    stack.pop();
+                    continue;
+                }
+                const v = out[frame.next++];
+                if (state.get(v) === 'active') backEdges.add(key(frame.node, v));
+                else if (!state.has(v)) {
+                    state.set(v, 'active');
+                    stack.push({ node: v, next: 0 });
+                }
+            }
+        };
+        nodes.filter(n => preds.get(n)!.length === 0).forEach(visit);
+        nodes.filter(n => !state.has(n)).forEach(visit);
+
+        // Longest path in topological order of the remaining DAG
+        const layer = new Map<CircuitNode, number>();
+        const remaining = new Map(nodes.map(n => [n, preds.get(n)!.filter(u => !backEdges.has(key(u, n))).length]));
+        const queue = nodes.filter(n => remaining.get(n) === 0);
+        queue.forEach(n => layer.set(n, 0));
+        for (let head = 0; head < queue.length; head++) {
+            const u = queue[head];
+            succs.get(u)!.forEach(v => {
+                if (backEdges.has(key(u, v))) return;
+                layer.set(v, Math.max(layer.get(v) ?? 0, layer.get(u)! + 1));
+                remaining.set(v, remaining.get(v)! - 1);
+                if (remaining.get(v) === 0) queue.push(v);
+            });
+        }
+
+        const isOutput = (n: CircuitNode) => n.type === 'OUTPUT';
+        nodes.forEach(n => {
+            if (n.type === 'INPUT') layer.set(n, 0);
+        });
+        const gatesDepth = Math.max(0, ...nodes.filter(n => !isOutput(n)).map(n => layer.get(n) ?? 0));
+        const last = nodes.some(n => !isOutput(n)) ? gatesDepth + 1 : 0;
+        nodes.filter(isOutput).forEach(n => layer.set(n, last));
+
+        const layers: CircuitNode[][] = Array.from({ length: last + 1 }, () => []);
+        nodes.forEach(n => layers[layer.get(n) ?? 0].push(n));
+        return layers.filter(l => l.length > 0);
+    }
+
+    /**
+     * Barycenter heuristic: alternately sort each column by the mean position of its
+     * neighbours on the left, then on the right. Keeps the ordering with fewest crossings.
+     */
+    private static reduceCrossings(layers: CircuitNode[][], preds: Map<CircuitNode, CircuitNode[]>, succs: Map<CircuitNode, CircuitNode[]>, sweeps: number) {
+        const position = new Map<CircuitNode, number>();
+        const index = () => layers.forEach(layer => layer.forEach((n, i) => position.set(n, i)));
+        index();
+
+        const sortBy = (layer: CircuitNode[], neighbours: Map<CircuitNode, CircuitNode[]>) => {
+            const center = new Map(layer.map((n, i) => {
+                const list = neighbours.get(n)!;
+                // Nodes without neighbours on that side keep their place
+                return [n, list.length === 0 ? i : list.reduce((s, m) => s + position.get(m)!, 0) / list.length];
+            }));
+            layer.sort((a, b) => center.get(a)! - center.get(b)!);
+            layer.forEach((n, i) => position.set(n, i));
+        };
+
+        let best = layers.map(l => [...l]);
+        let bestCrossings = LayoutEngine.countCrossings(layers, succs, position);
+        for (let pass = 0; pass < sweeps && bestCrossings > 0; pass++) {
+            for (let i = 1; i < layers.length; i++) sortBy(layers[i], preds);
+            for (let i = layers.length - 2; i >= 0; i--) sortBy(layers[i], succs);
+
+            const crossings = LayoutEngine.countCrossings(layers, succs, position);
+            if (crossings < bestCrossings) {
+                best = layers.map(l => [...l]);
+                bestCrossings = crossings;
+            }
+        }
+
+        best.forEach((l, i) => { layers[i] = l; });
+        index();
+    }
+
+    /**
+     * Crossings between each pair of adjacent columns (edges spanning several
+     * columns are approximated by their end points), counted as inversions.
+     */
+    private static countCrossings(layers: CircuitNode[][], succs: Map<CircuitNode, CircuitNode[]>, position: Map<CircuitNode, number>): number {
+        let total = 0;
+        for (let i = 0; i + 1 < layers.length; i++) {
+            const next = new Set(layers[i + 1]);
+            const ends: number[] = [];
+            layers[i].forEach(u => {
+                succs.get(u)!
+                    .filter(v => next.has(v))
+                    .map(v => position.get(v)!)
+                    .sort((a, b) => a - b)
+                    .forEach(p => ends.push(p));
+            });
+            // Fenwick tree over target positions
+            const tree = new Array(layers[i + 1].length + 1).fill(0);
+            ends.forEach((p, seen) => {
+                let notGreater = 0;
+                for (let j = p + 1; j > 0; j -= j & -j) notGreater += tree[j];
+                total += seen - notGreater;
+                for (let j = p + 1; j < tree.length; j += j & -j) tree[j]++;
+            });
+        }
+        return total;
+    }
+}
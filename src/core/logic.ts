@@ -0,0 +1,50 @@
+/**
+ * Signal level in four-valued logic:
+ * '0' and '1' are driven levels, 'X' is unknown (never initialized, or undetermined)
+ * and 'Z' is undriven (a floating pin). Gates read a 'Z' input as 'X'.
+ */
+export type Logic = '0' | '1' | 'X' | 'Z';
+
+/**
+ * 'binary'     - plain 0/1 simulation; gates combine only their connected inputs (an AND
+ *                with one wired input follows it), single-input gates and pins with
+ *                nothing connected give 0.
+ * 'four-state' - 0/1/X/Z simulation with X-propagation; unconnected inputs read as 'Z'.
+ */
+export type LogicSystem = 'binary' | 'four-state';
+
+/** Gate functions on four-valued levels, following the usual X-propagation rules. */
+export class FourState {
+    static not(a: Logic): Logic {
+        if (a === '0') return '1';
+        if (a === '1') return '0';
+        return 'X';
+    }
+
+    /** A driven copy of the level; a floating input gives an unknown output. */
+    static buffer(a: Logic): Logic {
+        return a === 'Z' ? 'X' : a;
+    }
+
+    /** Any 0 forces 0, whatever the other inputs are. */
+    static and(levels: Logic[]): Logic {
+        if (levels.includes('0')) return '0';
+        return levels.every(l => l === '1') ? '1' : 'X';
+    }
+
+    /** Any 1 forces 1, whatever the other inputs are. */
+    static or(levels: Logic[]): Logic {
+        if (levels.includes('1')) return '1';
+        return levels.every(l => l === '0') ? '0' : 'X';
+    }
+
+    /** Odd parity; a single unknown input makes the result unknown. */
+    static xor(levels: Logic[]): Logic {
+        let odd = false;
+        for (const l of levels) {
+            if (l !== '0' && l !== '1') return 'X';
+            if (l === '1') odd = !odd;
+        }
+        return odd ? '1' : '0';
+    }
+}
@@ -0,0 +1,108 @@
+import { Circuit, CircuitNode, CycleDetectedError, type Connection, type NodeType } from './engine';
+
+/** Node types that count as logic gates; pins, I/O and constants are free. */
+export const GATE_TYPES: NodeType[] = ['AND', 'OR', 'NAND', 'NOR', 'XOR', 'XNOR', 'NOT', 'BUFFER'];
+
+export interface OutputDepth {
+    output: string;
+    /** Gates on the longest path from any source to this output */
+    depth: number;
+}
+
+export interface FanoutStats {
+    /** Wires leaving the busiest input or gate */
+    max: number;
+    average: number;
+    /** The node with the largest fan-out; null when there are no inputs or gates */
+    node: CircuitNode | null;
+}
+
+export interface MetricsReport {
+    /** Gates by type, including those inside component instances */
+    gates: Partial<Record<NodeType, number>>;
+    gateCount: number;
+    /** Wired gate inputs, the usual literal-count cost of a gate network */
+    gateInputs: number;
+    /** Depth of every OUTPUT in label order; null when the circuit has a feedback loop */
+    depths: OutputDepth[] | null;
+    fanout: FanoutStats;
+    /** Longest source-to-output path, source first; empty for looped circuits or without outputs */
+    criticalPath: CircuitNode[];
+}
+
+/**
+ * Cost figures of a circuit, measured on the flattened netlist (components count with
+ * their contents). Depth counts gates, each one level whatever its delay; pins and
+ * outputs add nothing.
+ */
+export class CircuitMetrics {
+    static measure(circuit: Circuit): MetricsReport {
+        const nodes = Array.from(circuit.nodes.values());
+        const gates: Partial<Record<NodeType, number>> = {};
+        let gateInputs = 0;
+        nodes.filter(n => GATE_TYPES.includes(n.type)).forEach(n => {
+            gates[n.type] = (gates[n.type] ?? 0) + 1;
+            gateInputs += n.incoming.length;
+        });
+
+        // Fan-out of the nodes that drive something of their own (pins only pass a signal on)
+        const drivers = nodes.filter(n => GATE_TYPES.includes(n.type) || n.type === 'INPUT' || n.type === 'CLOCK');
+        const fanouts = drivers.map(n => CircuitMetrics.fanout(n));
+        const max = Math.max(0, ...fanouts);
+        const fanout: FanoutStats = {
+            max,
+            average: drivers.length === 0 ? 0 : fanouts.reduce((a, b) => a + b, 0) / drivers.length,
+            node: drivers.length === 0 ? null : drivers[fanouts.indexOf(max)]
+        };
+
+        const report: MetricsReport = {
+            gates,
+            gateCount: Object.values(gates).reduce((a, b) => a + b, 0),
+            gateInputs,
+            depths: null,
+            fanout,
+            criticalPath: []
+        };
+
+        let order: readonly CircuitNode[];
+        try {
+            order = circuit.getEvaluationOrder();
+        } catch (e) {
+            if (e instanceof CycleDetectedError) return report;
+            throw e;
+        }
+
+        // Longest path into each node, remembering the input it came through
+        const depth = new Map<CircuitNode, number>();
+        const via = new Map<CircuitNode, CircuitNode>();
+        order.forEach(node => {
+            let best = 0;
+            node.incoming.forEach(c => {
+                const d = depth.get(c.from)!;
+                if (d < best && via.has(node)) return;
+                best = d;
+                via.set(node, c.from);
+            });
+            depth.set(node, best + (GATE_TYPES.includes(node.type) ? 1 : 0));
+        });
+
+        const outputs = nodes.filter(n => n.type === 'OUTPUT' && !n.parent)
+            .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+        report.depths = outputs.map(out => ({ output: out.label, depth: depth.get(out)! }));
+
+        if (outputs.length === 0) return report;
+        const deepest = outputs.reduce((a, b) => depth.get(b)! > depth.get(a)! ? b : a);
+        for (let n: CircuitNode | undefined = deepest; n; n = via.get(n)) report.criticalPath.unshift(n);
+        return report;
+    }
+
+    /** Wires along a path, between each node and the next. */
+    static pathWires(path: CircuitNode[]): Connection[] {
+        return path.slice(1).flatMap((node, i) => node.incoming.filter(c => c.from === path[i]).slice(0, 1));
+    }
+
+    /** Fan-out counted through component pins, so a gate feeding an instance counts every inner load. */
+    private static fanout(node: CircuitNode): number {
+        return node.outgoing.reduce((sum, c) => sum + (c.to.type === 'PIN' ? Math.max(1, CircuitMetrics.fanout(c.to)) : 1), 0);
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * A product term over N variables.
+ * Bit (N - 1 - i) belongs to variable i (variable 0 is the high bit, as in SynthesisEngine).
+ * Bits set in `mask` are eliminated ("-"); `bits` holds the required values of the rest.
+ */
+export interface Implicant {
+    bits: number;
+    mask: number;
+}
+
+export class LogicMinimizer {
+    /** Upper bound on search steps for the exact cover before settling for the best cover found. */
+    static MAX_COVER_STEPS = 20000;
+
+    /**
+     * Quine–McCluskey minimization.
+     * @param minterms Rows where the function is 1
+     * @param dontCares Rows whose value does not matter; used to grow implicants but never required
+     * @param shared Terms already built for other outputs; reusing them is nearly free
+     * @returns A minimal set of prime implicants covering every minterm (fewest new terms, then fewest literals)
+     */
+    static minimize(varCount: number, minterms: number[], dontCares: number[] = [], shared: Implicant[] = []): Implicant[] {
+        if (minterms.length === 0) return [];
+        const primes = LogicMinimizer.primeImplicants(varCount, minterms, dontCares);
+
+        // Shared terms that fit inside this function are valid candidates even if not prime here
+        const allowed = new Set([...minterms, ...dontCares]);
+        shared.forEach(t => {
+            const fits = LogicMinimizer.expand(t).every(m => allowed.has(m));
+            if (fits && !primes.some(p => LogicMinimizer.same(p, t))) primes.push(t);
+        });
+
+        return LogicMinimizer.selectCover(primes, minterms, varCount, shared);
+    }
+
+    static same(a: Implicant, b: Implicant): boolean {
+        return a.bits === b.bits && a.mask === b.mask;
+    }
+
+    /** Every minterm covered by a term. */
+    static expand(imp: Implicant): number[] {
+        let result = [imp.bits];
+        for (let bit = 0; (imp.mask >> bit) > 0; bit++) {
+            if ((imp.mask >> bit) & 1) result = result.flatMap(m => [m, m | (1 << bit)]);
+        }
+        return result;
+    }
+
+    static primeImplicants(varCount: number, minterms: number[], dontCares: number[] = []): Implicant[] {
+        const full = (1 << varCount) - 1;
+        let current: Implicant[] = Array.from(new Set([...minterms, ...dontCares])).map(m => ({ bits: m & full, mask: 0 }));
+        const primes: Implicant[] = [];
+
+        while (current.length > 0) {
+            const used = new Set<number>();
+            const next = new Map<string, Implicant>();
+
+            for (let i = 0; i < current.length; i++) {
+                for (let j = i + 1; j < current.length; j++) {
+                    const a = current[i], b = current[j];
+                    if (a.mask !== b.mask) continue;
+                    const diff = a.bits ^ b.bits;
+                    // Combine only terms that differ in exactly one remaining variable
+                    if (diff === 0 || (diff & (diff - 1)) !== 0) continue;
+
+                    const merged = { bits: a.bits & ~diff, mask: a.mask | diff };
+                    next.set(`${merged.bits}/${merged.mask}`, merged);
+                    used.add(i);
+                    used.add(j);
+                }
+            }
+
+            current.forEach((imp, i) => {
+                if (!used.has(i)) primes.push(imp);
+            });
+            current = Array.from(next.values());
+        }
+
+        return primes;
+    }
+
+    static covers(imp: Implicant, minterm: number): boolean {
+        return (minterm & ~imp.mask) === imp.bits;
+    }
+
+    static literalCount(imp: Implicant, varCount: number): number {
+        let count = 0;
+        for (let i = 0; i < varCount; i++) {
+            if (!((imp.mask >> i) & 1)) count++;
+        }
+        return count;
+    }
+
+    /**
+     * Picks a minimum cover: essential primes first, then a bounded branch-and-bound
+     * over the remaining minterms (always branching on the hardest-to-cover one).
+     */
+    private static selectCover(primes: Implicant[], minterms: number[], varCount: number, shared: Implicant[] = []): Implicant[] {
+        const isShared = (p: Implicant) => shared.some(t => LogicMinimizer.same(t, p));
+        const termCost = (p: Implicant) => isShared(p) ? 1 : 1000 + LogicMinimizer.literalCount(p, varCount);
+        const cost = (set: Implicant[]) => set.reduce((sum, p) => sum + termCost(p), 0);
+        const coveringPrimes = new Map<number, Implicant[]>();
+        minterms.forEach(m => coveringPrimes.set(m, primes.filter(p => LogicMinimizer.covers(p, m))));
+
+        const chosen: Implicant[] = [];
+        coveringPrimes.forEach(list => {
+            if (list.length === 1 && !chosen.includes(list[0])) chosen.push(list[0]);
+        });
+        const remaining = minterms.filter(m => !chosen.some(p => LogicMinimizer.covers(p, m)));
+
+        let best = LogicMinimizer.greedyCover(primes, remaining, chosen, termCost);
+        let steps = 0;
+
+        const search = (uncovered: number[], picked: Implicant[]) => {
+            if (++steps > LogicMinimizer.MAX_COVER_STEPS) return;
+            if (uncovered.length === 0) {
+                if (cost(picked) < cost(best)) best = [...picked];
+                return;
+            }
+            if (cost(picked) + 1 >= cost(best)) return;
+
+            let target = uncovered[0];
+            uncovered.forEach(m => {
+                if (coveringPrimes.get(m)!.length < coveringPrimes.get(target)!.length) target = m;
+            });
+            for (const p of coveringPrimes.get(target)!) {
+                picked.push(p);
+                search(uncovered.filter(m => !LogicMinimizer.covers(p, m)), picked);
+                picked.pop();
+            }
+        };
+        search(remaining, [...chosen]);
+
+        return best;
+    }
+
+    private static greedyCover(primes: Implicant[], uncovered: number[], chosen: Implicant[], termCost: (p: Implicant) => number): Implicant[] {
+        const result = [...chosen];
+        let left = [...uncovered];
+        while (left.length > 0) {
+            // Most newly covered minterms per unit of cost
+            let best = primes[0];
+            let bestScore = -1;
+            primes.forEach(p => {
+                const score = left.filter(m => LogicMinimizer.covers(p, m)).length / termCost(p);
+                if (score > bestScore) {
+                    best = p;
+                    bestScore = score;
+                }
+            });
+            result.push(best);
+            left = left.filter(m => !LogicMinimizer.covers(best, m));
+        }
+        return result;
+    }
+
+    /** Formats a term as e.g. "AB'C"; "1" for the empty product. */
+    static termToString(imp: Implicant, names: string[]): string {
+        const n = names.length;
+        let term = '';
+        for (let i = 0; i < n; i++) {
+            const bit = n - 1 - i;
+            if ((imp.mask >> bit) & 1) continue;
+            term += names[i] + ((imp.bits >> bit) & 1 ? '' : "'");
+        }
+        return term || '1';
+    }
+
+    /** Sum-of-products string, e.g. "A'B + AC"; "0" for an empty cover. */
+    static toExpression(cover: Implicant[], names: string[]): string {
+        if (cover.length === 0) return '0';
+        return cover.map(imp => LogicMinimizer.termToString(imp, names)).join(' + ');
+    }
+}
@@ -0,0 +1,217 @@
+import { Circuit, CircuitNode, ConstantNode, InputNode, OutputNode, MAX_FAN_IN, Util, type NodeType } from './engine';
+import type { Expr } from './expression';
+import { LayoutEngine } from './layout';
+
+/** Error in an imported netlist, with the position of the offending text. */
+export class NetlistParseError extends Error {
+    line: number;
+    column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.line = line;
+        this.column = column;
+    }
+}
+
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+type GateType = 'AND' | 'OR' | 'NOT' | 'NAND' | 'NOR' | 'XOR' | 'XNOR' | 'BUFFER';
+
+/**
+ * 'WIRE' joins two names of the same net (assign y = x); it becomes no node of its own.
+ */
+type CellType = GateType | 'CONST0' | 'CONST1' | 'WIRE';
+
+interface Cell {
+    type: CellType;
+    inputs: string[];
+    position: SourcePosition;
+}
+
+/** Associative base of each gate type, used to split gates wider than MAX_FAN_IN. */
+const BASE: Partial<Record<GateType, GateType>> = {
+    AND: 'AND', OR: 'OR', XOR: 'XOR', NAND: 'AND', NOR: 'OR', XNOR: 'XOR'
+};
+
+/**
+ * Collects the ports and cells of an imported netlist (Verilog or BLIF) by net name
+ * and turns them into a laid out Circuit. Names are checked as the cells arrive
+ * (redeclarations, multiple drivers) and once more when building (undriven nets).
+ */
+export class NetlistBuilder {
+    private inputs = new Map<string, SourcePosition>();
+    private outputs = new Map<string, SourcePosition>();
+    private cells = new Map<string, Cell>();
+    /** First place each net is read, for "never driven" errors */
+    private uses = new Map<string, SourcePosition>();
+    private temporaries = 0;
+
+    input(name: string, position: SourcePosition) {
+        this.declare(name, position);
+        this.inputs.set(name, position);
+    }
+
+    output(name: string, position: SourcePosition) {
+        this.declare(name, position);
+        this.outputs.set(name, position);
+    }
+
+    /** Adds a cell driving `output`; each net has exactly one driver. */
+    cell(type: CellType, inputs: string[], output: string, position: SourcePosition) {
+        if (this.inputs.has(output)) {
+            throw new NetlistParseError(`"${output}" is a module input and cannot be driven inside the module.`, position.line, position.column);
+        }
+        const existing = this.cells.get(output);
+        if (existing) {
+            throw new NetlistParseError(`net "${output}" already has a driver (line ${existing.position.line}).`, position.line, position.column);
+        }
+        inputs.forEach(net => { if (!this.uses.has(net)) this.uses.set(net, position); });
+        this.cells.set(output, { type, inputs, position });
+    }
+
+    /**
+     * Adds the gates computing an expression.
+     * @param output Net receiving the result; a fresh internal net when omitted
+     * @returns The net carrying the result
+     */
+    expression(expr: Expr, position: SourcePosition, output?: string): string {
+        // '#' cannot appear in Verilog or BLIF names, so internal nets never clash with real ones
+        const target = () => output ?? `#${++this.temporaries}`;
+        switch (expr.kind) {
+            case 'var':
+                if (output === undefined) return expr.name;
+                this.cell('WIRE', [expr.name], output, position);
+                return output;
+            case 'const': {
+                const net = target();
+                this.cell(expr.value ? 'CONST1' : 'CONST0', [], net, position);
+                return net;
+            }
+            case 'not': {
+                // An inverted AND/OR/XOR becomes a single NAND/NOR/XNOR
+                const inner = expr.operand;
+                if (inner.kind === 'and' || inner.kind === 'or' || inner.kind === 'xor') {
+                    const type = ({ and: 'NAND', or: 'NOR', xor: 'XNOR' } as const)[inner.kind];
+                    const sources = inner.operands.map(e => this.expression(e, position));
+                    const net = target();
+                    this.cell(type, sources, net, position);
+                    return net;
+                }
+                const source = this.expression(inner, position);
+                const net = target();
+                this.cell('NOT', [source], net, position);
+                return net;
+            }
+            default: {
+                const sources = expr.operands.map(e => this.expression(e, position));
+                const net = target();
+                this.cell(expr.kind.toUpperCase() as GateType, sources, net, position);
+                return net;
+            }
+        }
+    }
+
+    /** Builds the circuit: one node per port and gate, auto-placed. */
+    build(): Circuit {
+        const circuit = new Circuit();
+        this.uses.forEach((position, net) => {
+            if (!this.inputs.has(net) && !this.cells.has(net)) {
+                throw new NetlistParseError(`net "${net}" is used but never driven.`, position.line, position.column);
+            }
+        });
+        this.outputs.forEach((position, net) => {
+            if (!this.inputs.has(net) && !this.cells.has(net)) {
+                throw new NetlistParseError(`output "${net}" is never driven.`, position.line, position.column);
+            }
+        });
+
+        // Declaration order seeds the layout's vertical order
+        let row = 0;
+        const nodes = new Map<string, CircuitNode>();
+        this.inputs.forEach((_, name) => {
+            const node = new InputNode(`IN_${name}`, 0, row++ * 100, name);
+            circuit.addNode(node);
+            nodes.set(name, node);
+        });
+
+        /** Node driving a net, with WIRE cells looked through. */
+        const resolve = (net: string): CircuitNode => {
+            const seen = new Set<string>();
+            let cell = this.cells.get(net);
+            while (cell?.type === 'WIRE') {
+                if (seen.has(net)) {
+                    throw new NetlistParseError(`net "${net}" is assigned to itself through a loop of assignments.`, cell.position.line, cell.position.column);
+                }
+                seen.add(net);
+                net = cell.inputs[0];
+                cell = this.cells.get(net);
+            }
+            return nodes.get(net)!;
+        };
+
+        const wide: [CircuitNode, string[]][] = [];
+        this.cells.forEach((cell, net) => {
+            if (cell.type === 'WIRE') return;
+            const node = cell.type === 'CONST0' || cell.type === 'CONST1'
+                ? new ConstantNode(`G_${net}`, 0, row++ * 100, cell.type === 'CONST1')
+                : Util.createNode(cell.type, `G_${net}`, 0, row++ * 100)!;
+            circuit.addNode(node);
+            nodes.set(net, node);
+            if (cell.inputs.length > 0) wide.push([node, cell.inputs]);
+        });
+
+        // Wires go in once every gate exists, since cells may refer to nets declared later
+        wide.forEach(([node, inputs]) => {
+            const sources = inputs.map(resolve);
+            if (sources.length <= MAX_FAN_IN || !BASE[node.type as GateType]) {
+                node.inputCount = Math.max(node.inputCount, sources.length);
+                sources.forEach((source, port) => circuit.addConnection(source.id, node.id, port));
+                return;
+            }
+            // Too many inputs for one gate: feed it from a tree of its associative base
+            const base = BASE[node.type as GateType]!;
+            let parts = sources;
+            let split = 0;
+            while (parts.length > MAX_FAN_IN) {
+                const next: CircuitNode[] = [];
+                for (let i = 0; i < parts.length; i += MAX_FAN_IN) {
+                    const chunk = parts.slice(i, i + MAX_FAN_IN);
+                    if (chunk.length === 1) {
+                        next.push(chunk[0]);
+                        continue;
+                    }
+                    let id: string;
+                    do id = `${node.id}_${split++}`; while (circuit.nodes.has(id));
+                    const part = Util.createNode(base as NodeType, id, 0, row++ * 100)!;
+                    part.inputCount = chunk.length;
+                    circuit.addNode(part);
+                    chunk.forEach((source, port) => circuit.addConnection(source.id, part.id, port));
+                    next.push(part);
+                }
+                parts = next;
+            }
+            node.inputCount = Math.max(node.inputCount, parts.length);
+            parts.forEach((source, port) => circuit.addConnection(source.id, node.id, port));
+        });
+
+        this.outputs.forEach((_, name) => {
+            const node = new OutputNode(`OUT_${name}`, 0, row++ * 100);
+            node.label = name;
+            circuit.addNode(node);
+            circuit.addConnection(resolve(name).id, node.id);
+        });
+
+        LayoutEngine.apply(circuit);
+        return circuit;
+    }
+
+    private declare(name: string, position: SourcePosition) {
+        if (this.inputs.has(name) || this.outputs.has(name)) {
+            throw new NetlistParseError(`port "${name}" is declared twice.`, position.line, position.column);
+        }
+    }
+}
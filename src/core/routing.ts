@@ -0,0 +1,183 @@
+import { MinHeap } from './heap';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Manhattan (orthogonal) wire routing around node boxes.
+ * Each leg is an A* search over the sparse grid formed by the box edges and the
+ * leg's end points, preferring short paths with few bends.
+ */
+export class WireRouter {
+    /** Clearance kept around every box */
+    static MARGIN = 10;
+    /** Straight piece leaving an output pin and entering an input pin */
+    static STUB = 15;
+    /** Extra cost of one bend, in pixels of wire */
+    static BEND_COST = 30;
+    /** Boxes further than this from a leg's bounding box are ignored */
+    static SEARCH_MARGIN = 150;
+    /** Grid points above which a leg falls back to a simple Z shape */
+    static MAX_GRID = 4000;
+
+    /**
+     * Path from an output pin (wire leaves to the right) to an input pin (wire enters
+     * from the left), passing through the waypoints in order.
+     */
+    static route(start: Point, end: Point, obstacles: Box[], waypoints: Point[] = []): Point[] {
+        const stubOut = { x: start.x + WireRouter.STUB, y: start.y };
+        const stubIn = { x: end.x - WireRouter.STUB, y: end.y };
+        const stops = [stubOut, ...waypoints, stubIn];
+
+        const path: Point[] = [start];
+        for (let i = 0; i + 1 < stops.length; i++) {
+            path.push(...WireRouter.leg(stops[i], stops[i + 1], obstacles));
+        }
+        path.push(end);
+        return WireRouter.simplify(path);
+    }
+
+    /** SVG path data for a polyline. */
+    static toPath(points: Point[]): string {
+        return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+    }
+
+    /** Orthogonal polyline from a to b (both included). */
+    private static leg(a: Point, b: Point, obstacles: Box[]): Point[] {
+        const m = WireRouter.MARGIN;
+        const reach = WireRouter.SEARCH_MARGIN;
+        const minX = Math.min(a.x, b.x) - reach, maxX = Math.max(a.x, b.x) + reach;
+        const minY = Math.min(a.y, b.y) - reach, maxY = Math.max(a.y, b.y) + reach;
+
+        const boxes = obstacles
+            .map(o => ({ left: o.x - m, top: o.y - m, right: o.x + o.width + m, bottom: o.y + o.height + m }))
+            .filter(o => o.right > minX && o.left < maxX && o.bottom > minY && o.top < maxY)
+            // A box around an end point (e.g. a waypoint dropped on a gate) cannot be avoided
+            .filter(o => !WireRouter.inside(a, o) && !WireRouter.inside(b, o));
+
+        const xs = WireRouter.unique([a.x, b.x, ...boxes.flatMap(o => [o.left, o.right])]);
+        const ys = WireRouter.unique([a.y, b.y, ...boxes.flatMap(o => [o.top, o.bottom])]);
+        if (xs.length * ys.length > WireRouter.MAX_GRID) return WireRouter.zShape(a, b);
+
+        const blocked = (x1: number, y1: number, x2: number, y2: number) => boxes.some(o =>
+            Math.min(x1, x2) < o.right && Math.max(x1, x2) > o.left &&
+            Math.min(y1, y2) < o.bottom && Math.max(y1, y2) > o.top);
+
+        // A* over (column, row, direction); direction 0 = horizontal, 1 = vertical, 2 = start
+        const cols = xs.length;
+        const key = (i: number, j: number, d: number) => (j * cols + i) * 3 + d;
+        const goalI = xs.indexOf(b.x), goalJ = ys.indexOf(b.y);
+        const heuristic = (i: number, j: number) => Math.abs(xs[i] - b.x) + Math.abs(ys[j] - b.y);
+
+        const cost = new Map<number, number>();
+        const previous = new Map<number, number>();
+        const heap = new MinHeap<{ key: number, priority: number }>((p, q) => p.priority - q.priority);
+        const startKey = key(xs.indexOf(a.x), ys.indexOf(a.y), 2);
+        cost.set(startKey, 0);
+        heap.push({ key: startKey, priority: heuristic(xs.indexOf(a.x), ys.indexOf(a.y)) });
+
+        let found = -1;
+        while (heap.size > 0) {
+            const current = heap.pop()!.key;
+            const d = current % 3;
+            const cell = (current - d) / 3;
+            const i = cell % cols, j = (cell - i) / cols;
+            if (i === goalI && j === goalJ) {
+                found = current;
+                break;
+            }
+            const base = cost.get(current)!;
+
+            const steps: [number, number, number][] = [[i - 1, j, 0], [i + 1, j, 0], [i, j - 1, 1], [i, j + 1, 1]];
+            for (const [ni, nj, nd] of steps) {
+                if (ni < 0 || nj < 0 || ni >= cols || nj >= ys.length) continue;
+                if (blocked(xs[i], ys[j], xs[ni], ys[nj])) continue;
+                const next = key(ni, nj, nd);
+                const turn = d !== 2 && d !== nd ? WireRouter.BEND_COST : 0;
+                const total = base + Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]) + turn;
+                if (total >= (cost.get(next) ?? Infinity)) continue;
+                cost.set(next, total);
+                previous.set(next, current);
+                heap.push({ key: next, priority: total + heuristic(ni, nj) });
+            }
+        }
+
+        if (found === -1) return WireRouter.zShape(a, b);
+
+        const points: Point[] = [];
+        for (let k: number | undefined = found; k !== undefined; k = previous.get(k)) {
+            const cell = (k - k % 3) / 3;
+            const i = cell % cols;
+            points.unshift({ x: xs[i], y: ys[(cell - i) / cols] });
+        }
+        return points;
+    }
+
+    private static zShape(a: Point, b: Point): Point[] {
+        const mid = (a.x + b.x) / 2;
+        return [a, { x: mid, y: a.y }, { x: mid, y: b.y }, b];
+    }
+
+    private static inside(p: Point, o: { left: number, top: number, right: number, bottom: number }): boolean {
+        return p.x > o.left && p.x < o.right && p.y > o.top && p.y < o.bottom;
+    }
+
+    private static unique(values: number[]): number[] {
+        return Array.from(new Set(values)).sort((p, q) => p - q);
+    }
+
+    /** Drops repeated points and points in the middle of straight runs. */
+    private static simplify(points: Point[]): Point[] {
+        const result: Point[] = [];
+        points.forEach(p => {
+            const last = result[result.length - 1];
+            if (last && last.x === p.x && last.y === p.y) return;
+            const before = result[result.length - 2];
+            if (before && last && ((before.x === last.x && last.x === p.x) || (before.y === last.y && last.y === p.y))) {
+                result[result.length - 1] = p;
+                return;
+            }
+            result.push(p);
+        });
+        return result;
+    }
+
+    /**
+     * Points where routes leaving the same pin split up (junction dots).
+     * All routes must start at the same point.
+     */
+    static junctions(routes: Point[][]): Point[] {
+        const dots = new Map<string, Point>();
+        for (let r = 0; r < routes.length; r++) {
+            for (let s = r + 1; s < routes.length; s++) {
+                const split = WireRouter.splitPoint(routes[r], routes[s]);
+                if (split) dots.set(`${split.x},${split.y}`, split);
+            }
+        }
+        return Array.from(dots.values());
+    }
+
+    /** Last point shared by two polylines starting at the same point, following both from the start. */
+    private static splitPoint(p: Point[], q: Point[]): Point | null {
+        let k = 1;
+        while (k < p.length && k < q.length && p[k].x === q[k].x && p[k].y === q[k].y) k++;
+        const shared = p[k - 1];
+        if (k >= p.length || k >= q.length) return shared;
+
+        // Both continue in the same direction: they split where the shorter segment ends
+        const dir = (a: Point, b: Point) => [Math.sign(b.x - a.x), Math.sign(b.y - a.y)].join();
+        if (dir(shared, p[k]) !== dir(shared, q[k])) return shared;
+        const lp = Math.abs(p[k].x - shared.x) + Math.abs(p[k].y - shared.y);
+        const lq = Math.abs(q[k].x - shared.x) + Math.abs(q[k].y - shared.y);
+        return lp < lq ? p[k] : q[k];
+    }
+}
@@ -0,0 +1,270 @@
+/**
+ * Circuit file format (version 7)
+ *
+ * {
+ *   "format": "logic-sim-circuit",
+ *   "version": 7,
+ *   "mode": "auto",                     // optional SimulationMode
+ *   "logic": "binary",                  // optional LogicSystem ("binary" or "four-state")
+ *   "delays": { "XOR": 4 },             // optional timing delays that differ from the defaults
+ *   "nodes": [
+ *     { "id": "a", "type": "INPUT", "label": "A", "x": 100, "y": 100, "value": true },
+ *     { "id": "g", "type": "NOT",   "label": "NOT", "x": 300, "y": 100 },
+ *     { "id": "h", "type": "XOR",   "label": "XOR", "x": 300, "y": 200, "inputCount": 3 },
+ *     { "id": "c", "type": "CLOCK", "label": "CLK", "x": 100, "y": 300, "period": 20 }
+ *   ],
+ *   "connections": [
+ *     { "from": "a", "fromPort": 0, "to": "g", "toPort": 0 }, // output port -> input port
+ *     { "from": "g", "fromPort": 0, "to": "h", "toPort": 1, "bends": [{ "x": 380, "y": 160 }] }
+ *   ],
+ *   "components": [                      // optional, definitions used by COMPONENT nodes
+ *     { "name": "Half Adder", "circuit": { ...a circuit document... } }
+ *   ]
+ * }
+ *
+ * `value` is optional and stores the last known signal (switch state, latch memory).
+ * `inputCount` is the number of input pins of multi-input gates, 2 to 8 (defaults to 2);
+ * other node types do not take it.
+ * `period` is the full cycle length of a CLOCK, in simulated time units.
+ * Ports are numbered in pin order (top to bottom); an input port has at most one driver.
+ * `bends` is optional and lists the user's bend points of a wire, in canvas coordinates.
+ * Component instances are stored flattened: their inner nodes carry `parent` (the
+ * instance id), and the COMPONENT node lists its `inputPins`/`outputPins` in pin order.
+ *
+ * History:
+ *   1 - initial format
+ *   2 - component instances (`parent`, `component`, `inputPins`, `outputPins`, `components`)
+ *   3 - NAND/NOR/XOR/XNOR/BUFFER/CONST0/CONST1 types and `inputCount`
+ *   4 - connections name ports (`fromPort`, `toPort`) instead of an input list position (`pin`)
+ *   5 - optional wire bend points (`bends`)
+ *   6 - optional `logic` system
+ *   7 - CLOCK nodes (`period`) and per-type `delays`
+ * Any change to this shape must bump CIRCUIT_FORMAT_VERSION and add a migration step
+ * to parseCircuitDocument so older files keep loading.
+ */
+
+export const CIRCUIT_FORMAT_NAME = 'logic-sim-circuit';
+export const CIRCUIT_FORMAT_VERSION = 7;
+
+export interface NodeDocument {
+    id: string;
+    type: string;
+    label: string;
+    x: number;
+    y: number;
+    value?: boolean;
+    inputCount?: number;
+    period?: number;
+    parent?: string;
+    component?: string;
+    inputPins?: string[];
+    outputPins?: string[];
+}
+
+export interface ConnectionDocument {
+    from: string;
+    fromPort: number;
+    to: string;
+    toPort: number;
+    bends?: { x: number, y: number }[];
+}
+
+export interface CircuitDocument {
+    format: typeof CIRCUIT_FORMAT_NAME;
+    version: number;
+    mode?: string;
+    logic?: string;
+    delays?: Record<string, number>;
+    nodes: NodeDocument[];
+    connections: ConnectionDocument[];
+    components?: ComponentDocument[];
+    /** What migrating an older file changed, for the user; set by parseCircuitDocument, never saved */
+    notices?: string[];
+}
+
+export interface ComponentDocument {
+    name: string;
+    circuit: CircuitDocument;
+}
+
+export class CircuitFormatError extends Error {
+    constructor(message: string) {
+        super(`Invalid circuit file: ${message}`);
+    }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number =>
+    typeof v === 'number' && Number.isFinite(v);
+
+const isOptionalStringArray = (v: unknown): boolean =>
+    v === undefined || (Array.isArray(v) && v.every(item => typeof item === 'string'));
+
+const isPoint = (v: unknown): boolean =>
+    isObject(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+
+const isPort = (v: unknown): v is number =>
+    Number.isInteger(v) && (v as number) >= 0;
+
+/** Types that took a single input in versions 1-3; other gates grow ports for extra wires. */
+const SINGLE_INPUT_TYPES = ['NOT', 'BUFFER', 'OUTPUT', 'PIN'];
+
+/** Gate types whose fan-in a file stores as `inputCount` */
+const FAN_IN_TYPES = ['AND', 'OR', 'NAND', 'NOR', 'XOR', 'XNOR'];
+
+/**
+ * Versions 1-3 stored each wire's position in the target's list of connected inputs.
+ * Inputs were packed from the first pin, so that position becomes the port number.
+ * Those versions also let a single-input node take several wires (only the first was
+ * read); the first one is kept and the others dropped, each with a notice.
+ */
+function migrateInputLists(connections: unknown[], nodes: Record<string, unknown>[], notices: string[]): unknown[] {
+    connections.forEach((c, i) => {
+        if (!isObject(c) || !isPort(c.pin)) throw new CircuitFormatError(`connections[${i}].pin must be a non-negative integer.`);
+    });
+    const byTarget = new Map<unknown, Record<string, unknown>[]>();
+    (connections as Record<string, unknown>[]).forEach(c => {
+        if (!byTarget.has(c.to)) byTarget.set(c.to, []);
+        byTarget.get(c.to)!.push(c);
+    });
+
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const label = (id: unknown) => String(byId.get(id)?.label ?? id);
+    const ports = new Map<Record<string, unknown>, number>();
+    byTarget.forEach((list, to) => {
+        const single = SINGLE_INPUT_TYPES.includes(byId.get(to)?.type as string);
+        [...list].sort((a, b) => (a.pin as number) - (b.pin as number)).forEach((c, port) => {
+            if (single && port > 0) {
+                notices.push(`Dropped the wire from "${label(c.from)}" into "${label(to)}", which takes a single input.`);
+                return;
+            }
+            ports.set(c, port);
+        });
+    });
+    return (connections as Record<string, unknown>[])
+        .filter(c => ports.has(c))
+        .map(c => ({ from: c.from, fromPort: 0, to: c.to, toPort: ports.get(c) }));
+}
+
+/**
+ * Validates an untrusted document (already JSON.parse'd) and returns it typed.
+ * Throws CircuitFormatError describing the first problem found, so callers never
+ * start building a graph from a malformed file.
+ */
+export function parseCircuitDocument(data: unknown): CircuitDocument {
+    if (!isObject(data)) throw new CircuitFormatError('expected a JSON object at the top level.');
+    if (data.format !== CIRCUIT_FORMAT_NAME) throw new CircuitFormatError(`unknown format "${String(data.format)}".`);
+    if (!Number.isInteger(data.version)) throw new CircuitFormatError('missing "version".');
+
+    const version = data.version as number;
+    if (version > CIRCUIT_FORMAT_VERSION) {
+        throw new CircuitFormatError(`version ${version} is newer than this simulator supports (${CIRCUIT_FORMAT_VERSION}).`);
+    }
+    if (version < 1) throw new CircuitFormatError(`unsupported version ${version}.`);
+
+    if (data.mode !== undefined && typeof data.mode !== 'string') throw new CircuitFormatError('"mode" must be a string.');
+    if (data.logic !== undefined && typeof data.logic !== 'string') throw new CircuitFormatError('"logic" must be a string.');
+    if (data.delays !== undefined && !(isObject(data.delays) && Object.values(data.delays).every(d => isFiniteNumber(d) && d >= 0))) {
+        throw new CircuitFormatError('"delays" must map node types to non-negative numbers.');
+    }
+    if (!Array.isArray(data.nodes)) throw new CircuitFormatError('"nodes" must be an array.');
+    if (!Array.isArray(data.connections)) throw new CircuitFormatError('"connections" must be an array.');
+
+    const ids = new Set<string>();
+    data.nodes.forEach((n, i) => {
+        const where = `nodes[${i}]`;
+        if (!isObject(n)) throw new CircuitFormatError(`${where} must be an object.`);
+        if (typeof n.id !== 'string' || n.id === '') throw new CircuitFormatError(`${where}.id must be a non-empty string.`);
+        if (ids.has(n.id)) throw new CircuitFormatError(`duplicate node id "${n.id}".`);
+        if (typeof n.type !== 'string') throw new CircuitFormatError(`${where}.type must be a string.`);
+        if (typeof n.label !== 'string') throw new CircuitFormatError(`${where}.label must be a string.`);
+        if (!isFiniteNumber(n.x) || !isFiniteNumber(n.y)) throw new CircuitFormatError(`${where} needs numeric x and y.`);
+        if (n.value !== undefined && typeof n.value !== 'boolean') throw new CircuitFormatError(`${where}.value must be a boolean.`);
+        if (n.inputCount !== undefined && (!Number.isInteger(n.inputCount) || (n.inputCount as number) < 1)) {
+            throw new CircuitFormatError(`${where}.inputCount must be a positive integer.`);
+        }
+        if (n.period !== undefined && (!Number.isInteger(n.period) || (n.period as number) < 2)) {
+            throw new CircuitFormatError(`${where}.period must be an integer of at least 2.`);
+        }
+        if (n.parent !== undefined && typeof n.parent !== 'string') throw new CircuitFormatError(`${where}.parent must be a string.`);
+        if (n.component !== undefined && typeof n.component !== 'string') throw new CircuitFormatError(`${where}.component must be a string.`);
+        if (!isOptionalStringArray(n.inputPins) || !isOptionalStringArray(n.outputPins)) {
+            throw new CircuitFormatError(`${where} pin lists must be arrays of node ids.`);
+        }
+        ids.add(n.id);
+    });
+
+    // A node may not end up inside itself, directly or through other instances
+    const parents = new Map((data.nodes as Record<string, unknown>[]).map(n => [n.id as string, n.parent as string | undefined]));
+    parents.forEach((_, id) => {
+        const seen = new Set<string>([id]);
+        for (let p = parents.get(id); p !== undefined; p = parents.get(p)) {
+            if (seen.has(p)) throw new CircuitFormatError(`node "${id}" is nested inside itself through its "parent" chain.`);
+            seen.add(p);
+        }
+    });
+
+    // Only migration speaks to the user; a "notices" key in the file itself is dropped below
+    const notices: string[] = [];
+    const connections = version < 4 ? migrateInputLists(data.connections, data.nodes, notices) : data.connections;
+    const ports = new Set<string>();
+    connections.forEach((c, i) => {
+        const where = `connections[${i}]`;
+        if (!isObject(c)) throw new CircuitFormatError(`${where} must be an object.`);
+        if (typeof c.from !== 'string' || !ids.has(c.from)) throw new CircuitFormatError(`${where}.from references an unknown node.`);
+        if (typeof c.to !== 'string' || !ids.has(c.to)) throw new CircuitFormatError(`${where}.to references an unknown node.`);
+        if (!isPort(c.fromPort)) throw new CircuitFormatError(`${where}.fromPort must be a non-negative integer.`);
+        if (!isPort(c.toPort)) throw new CircuitFormatError(`${where}.toPort must be a non-negative integer.`);
+        if (c.bends !== undefined && !(Array.isArray(c.bends) && c.bends.every(isPoint))) {
+            throw new CircuitFormatError(`${where}.bends must be an array of points with numeric x and y.`);
+        }
+        const key = `${c.to}#${c.toPort}`;
+        if (ports.has(key)) throw new CircuitFormatError(`${where} drives port ${c.toPort} of "${c.to}" a second time.`);
+        ports.add(key);
+    });
+
+    let components: ComponentDocument[] | undefined;
+    if (data.components !== undefined) {
+        if (!Array.isArray(data.components)) throw new CircuitFormatError('"components" must be an array.');
+        components = data.components.map((c, i) => {
+            if (!isObject(c) || typeof c.name !== 'string' || c.name === '') {
+                throw new CircuitFormatError(`components[${i}] needs a non-empty name.`);
+            }
+            try {
+                const circuit = parseCircuitDocument(c.circuit);
+                circuit.notices?.forEach(notice => notices.push(`component "${c.name}": ${notice}`));
+                delete circuit.notices;
+                return { name: c.name, circuit };
+            } catch (e) {
+                if (e instanceof CircuitFormatError) {
+                    throw new CircuitFormatError(`component "${c.name}": ${e.message.replace(/^Invalid circuit file: /, '')}`);
+                }
+                throw e;
+            }
+        });
+    }
+
+    // Versions 1-5 could wire more inputs than the stored fan-in; the gate grows to fit
+    // (Circuit.fromJSON still rejects a fan-in above the maximum)
+    let nodes = data.nodes as Record<string, unknown>[];
+    if (version < 6) {
+        const widest = new Map<unknown, number>();
+        (connections as Record<string, unknown>[]).forEach(c => {
+            widest.set(c.to, Math.max(widest.get(c.to) ?? 0, (c.toPort as number) + 1));
+        });
+        nodes = nodes.map(n => {
+            const needed = widest.get(n.id) ?? 0;
+            if (!FAN_IN_TYPES.includes(n.type as string) || needed <= ((n.inputCount as number | undefined) ?? 2)) return n;
+            return { ...n, inputCount: needed };
+        });
+    }
+
+    // Older documents come back in the current shape
+    const doc = { ...data, version: CIRCUIT_FORMAT_VERSION, nodes, connections } as unknown as CircuitDocument;
+    if (components) doc.components = components;
+    if (notices.length > 0) doc.notices = notices;
+    else delete doc.notices;
+    return doc;
+}
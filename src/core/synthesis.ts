@@ -1,82 +1,252 @@
+import { Circuit, InputNode, OutputNode, AndGate, OrGate, NotGate, ConstantNode, CircuitNode, MAX_FAN_IN } from './engine';
+import { LogicMinimizer, type Implicant } from './minimize';
+import { LayoutEngine } from './layout';
 
-import { Circuit, InputNode, OutputNode, AndGate, OrGate, NotGate, CircuitNode } from './engine';
+/** Desired output of one truth-table row; 'X' is a don't-care. */
+export type TargetValue = boolean | 'X';
+
+/** One output column of the specification. */
+export interface OutputFunction {
+    name: string;
+    /** Desired output for each row (0 to 2^N - 1); input 0 is the high bit, as in TruthTable */
+    targets: TargetValue[];
+}
+
+export interface SynthesisOptions {
+    /** Produce a minimal two-level cover (Quine–McCluskey) instead of one AND per minterm */
+    minimize?: boolean;
+    /** Labels of the inputs, variable 0 first; A, B... when omitted */
+    inputNames?: string[];
+}
+
+export interface SynthesisSummary {
+    expressions: { name: string, expression: string }[];
+    /** Gates of the canonical sum of products, nothing shared between outputs */
+    gatesBefore: number;
+    /** Gates Build Circuit would place for the minimized covers */
+    gatesAfter: number;
+}
 
 export class SynthesisEngine {
     /**
-     * Generates a Sum-of-Products circuit
+     * Generates a Sum-of-Products circuit driving one OutputNode per function.
+     * Identical product terms are built once and shared between outputs.
      * @param inputCount Number of variables (A, B...)
-     * @param outputs Array of boolean desired outputs for each row (0 to 2^N - 1)
      */
-    static generateCircuit(inputCount: number, outputs: boolean[]): Circuit {
+    static generateCircuit(inputCount: number, outputs: OutputFunction[], options: SynthesisOptions = {}): Circuit {
+        const covers = SynthesisEngine.computeCovers(inputCount, outputs, options.minimize ?? false);
+        const names = options.inputNames ?? SynthesisEngine.variableNames(inputCount);
+        const circuit = SynthesisEngine.buildSumOfProducts(names, outputs.map(o => o.name), covers);
+        LayoutEngine.apply(circuit);
+        return circuit;
+    }
+
+    /**
+     * Product terms for each function.
+     * Without minimization every minterm is its own term and don't-cares are treated as 0.
+     * With minimization, terms chosen for earlier outputs are preferred by later ones.
+     */
+    static computeCovers(inputCount: number, outputs: OutputFunction[], minimize: boolean): Implicant[][] {
+        const shared: Implicant[] = [];
+        return outputs.map(({ targets }) => {
+            const minterms: number[] = [];
+            const dontCares: number[] = [];
+            targets.forEach((out, idx) => {
+                if (out === 'X') dontCares.push(idx);
+                else if (out) minterms.push(idx);
+            });
+
+            if (!minimize) return minterms.map(m => ({ bits: m, mask: 0 }));
+
+            const cover = LogicMinimizer.minimize(inputCount, minterms, dontCares, shared);
+            cover.forEach(t => {
+                if (!shared.some(s => LogicMinimizer.same(s, t))) shared.push(t);
+            });
+            return cover;
+        });
+    }
+
+    /**
+     * Expressions of the minimized functions and gate counts with and without minimization.
+     * Gates are counted from the covers, without building a circuit, so this is cheap
+     * enough to run on every edit.
+     */
+    static summarize(inputCount: number, outputs: OutputFunction[], options: SynthesisOptions = {}): SynthesisSummary {
+        const names = options.inputNames ?? SynthesisEngine.variableNames(inputCount);
+        const minimized = SynthesisEngine.computeCovers(inputCount, outputs, true);
+
+        return {
+            expressions: outputs.map((o, i) => ({ name: o.name, expression: LogicMinimizer.toExpression(minimized[i], names) })),
+            gatesBefore: SynthesisEngine.countGates(inputCount, SynthesisEngine.computeCovers(inputCount, outputs, false), false),
+            gatesAfter: SynthesisEngine.countGates(inputCount, minimized, true)
+        };
+    }
+
+    /**
+     * NOT, AND and OR gates of a two-level circuit over the covers, split into trees above
+     * MAX_FAN_IN as buildSumOfProducts does. Each complemented input takes one inverter.
+     * @param shareTerms Build each distinct product term once for all outputs, as buildSumOfProducts does
+     */
+    private static countGates(inputCount: number, covers: Implicant[][], shareTerms: boolean): number {
+        const tree = (sources: number): number => {
+            if (sources <= MAX_FAN_IN) return 1;
+            let gates = 0;
+            for (let i = 0; i < sources; i += MAX_FAN_IN) {
+                const chunk = Math.min(MAX_FAN_IN, sources - i);
+                if (chunk > 1) gates += tree(chunk);
+            }
+            return gates + tree(Math.ceil(sources / MAX_FAN_IN));
+        };
+
+        const inverted = new Set<number>();
+        const products = new Set<string>();
+        let gates = 0;
+        covers.forEach((cover, o) => {
+            // Sources of the output's OR: product gates, single literals and the constant 1
+            const sources = new Set<string>();
+            cover.forEach(imp => {
+                let literals = 0;
+                for (let pos = 0; pos < inputCount; pos++) {
+                    if ((imp.mask >> pos) & 1) continue;
+                    literals++;
+                    if (!((imp.bits >> pos) & 1)) inverted.add(pos);
+                }
+                if (literals < 2) {
+                    sources.add(literals === 0 ? '1' : `${imp.bits}/${imp.mask}`);
+                    return;
+                }
+                const key = shareTerms ? `${imp.bits}/${imp.mask}` : `${o}:${imp.bits}/${imp.mask}`;
+                if (!products.has(key)) {
+                    products.add(key);
+                    gates += tree(literals);
+                }
+                sources.add(key);
+            });
+            if (sources.size > 1) gates += tree(sources.size);
+        });
+        return gates + inverted.size;
+    }
+
+    static variableNames(count: number): string[] {
+        return Array.from({ length: count }, (_, i) => String.fromCharCode(65 + i));
+    }
+
+    private static buildSumOfProducts(names: string[], outputNames: string[], covers: Implicant[][]): Circuit {
         const circuit = new Circuit();
         const startX = 100;
         const startY = 100;
-
+        const inputCount = names.length;
 
         // 1. Create Inputs
         const inputs: InputNode[] = [];
         for (let i = 0; i < inputCount; i++) {
             const id = `INPUT_${i}`;
             // Vertical placement on left
-            const node = new InputNode(id, startX, startY + (i * 120));
+            const node = new InputNode(id, startX, startY + (i * 120), names[i]);
             circuit.addNode(node);
             inputs.push(node);
         }
 
-        // 2. Identify Minterms (Rows where output is 1)
-        const minterms: number[] = [];
-        outputs.forEach((out, idx) => {
-            if (out) minterms.push(idx);
-        });
+        // 2. One shared inverter per input, created on first use
+        const inverters: Map<number, NotGate> = new Map();
+        const literal = (bit: number, positive: boolean): CircuitNode => {
+            if (positive) return inputs[bit];
+            let notGate = inverters.get(bit);
+            if (!notGate) {
+                notGate = new NotGate(`NOT_${bit}`, startX + 150, inputs[bit].y + 50);
+                circuit.addNode(notGate);
+                circuit.addConnection(inputs[bit].id, notGate.id);
+                inverters.set(bit, notGate);
+            }
+            return notGate;
+        };
 
-        if (minterms.length === 0) {
-            // Always 0 -> Just connect an input to nothing, or output constant 0.
-            // For visual simplicity, let's just make a disconnected Output.
-            const out = new OutputNode('OUTPUT_FINAL', startX + 600, startY + 200);
-            circuit.addNode(out);
-            return circuit;
-        }
+        /**
+         * AND/OR gate over any number of sources; wider than MAX_FAN_IN becomes a tree
+         * (both operators are associative).
+         */
+        const gateTree = (type: 'AND' | 'OR', id: string, sources: CircuitNode[], x: number, y: number): CircuitNode => {
+            if (sources.length > MAX_FAN_IN) {
+                const chunks: CircuitNode[] = [];
+                for (let i = 0; i < sources.length; i += MAX_FAN_IN) {
+                    const chunk = sources.slice(i, i + MAX_FAN_IN);
+                    const offset = chunks.length * 60 - 30;
+                    chunks.push(chunk.length === 1 ? chunk[0] : gateTree(type, `${id}_${chunks.length}`, chunk, x - 80, y + offset));
+                }
+                return gateTree(type, id, chunks, x, y);
+            }
+            const count = Math.max(2, sources.length);
+            const gate = type === 'AND' ? new AndGate(id, x, y, count) : new OrGate(id, x, y, count);
+            circuit.addNode(gate);
+            sources.forEach(src => circuit.addConnection(src.id, gate.id));
+            return gate;
+        };
 
-        // 3. Create AND gates for each minterm
-        const andGates: CircuitNode[] = [];
-        minterms.forEach((rowIdx, mIdx) => {
-            const andGate = new AndGate(`AND_${mIdx}`, startX + 300, startY + (mIdx * 80));
-            circuit.addNode(andGate);
-            andGates.push(andGate);
+        let constant: ConstantNode | null = null;
+        const constantOne = () => {
+            if (!constant) {
+                constant = new ConstantNode('CONST1', startX + 300, startY - 60, true);
+                circuit.addNode(constant);
+            }
+            return constant;
+        };
 
-            // Connect inputs to this AND gate
-            // Check each bit of rowIdx
+        // 3. One AND gate per distinct product term (single literals feed the OR directly)
+        const andGates: Map<string, CircuitNode> = new Map();
+        const termSources = (imp: Implicant): CircuitNode[] => {
+            const literals: CircuitNode[] = [];
             for (let bit = 0; bit < inputCount; bit++) {
                 // High bit is Input 0.
-                // rowIdx: 101 (5). Input 0=1, Input 1=0, Input 2=1.
-                const isOne = (rowIdx >> (inputCount - 1 - bit)) & 1;
-                const inputNode = inputs[bit];
-
-                if (isOne) {
-                    circuit.addConnection(inputNode.id, andGate.id);
-                } else {
-                    // Need a NOT gate
-                    // Reuse NOT gates? Or create fresh ones for simplicity?
-                    // Fresh ones avoids crossing wire mess for now, though less efficient.
-                    const notId = `NOT_${mIdx}_${bit}`;
-                    const notGate = new NotGate(notId, startX + 200, andGate.y + (bit * 10) - 20); // offset slightly
-                    circuit.addNode(notGate);
-
-                    circuit.addConnection(inputNode.id, notId);
-                    circuit.addConnection(notId, andGate.id);
-                }
+                const pos = inputCount - 1 - bit;
+                if ((imp.mask >> pos) & 1) continue;
+                literals.push(literal(bit, !!((imp.bits >> pos) & 1)));
             }
-        });
 
-        // 4. OR all minterms
-        const orGate = new OrGate('OR_FINAL', startX + 500, startY + 200);
-        circuit.addNode(orGate);
-        andGates.forEach(g => circuit.addConnection(g.id, orGate.id));
+            if (literals.length === 0) return [constantOne()];
+            if (literals.length === 1) return literals;
 
-        // 5. Final Output
-        const finalOut = new OutputNode('OUTPUT', startX + 600, orGate.y);
-        circuit.addNode(finalOut);
-        circuit.addConnection(orGate.id, finalOut.id);
+            const key = `${imp.bits}/${imp.mask}`;
+            let andGate = andGates.get(key);
+            if (!andGate) {
+                andGate = gateTree('AND', `AND_${andGates.size}`, literals, startX + 300, startY + (andGates.size * 80));
+                andGates.set(key, andGate);
+            }
+            return [andGate];
+        };
+
+        covers.forEach((cover, oIdx) => {
+            const single = covers.length === 1;
+            const outY = startY + 200 + (single ? 0 : oIdx * 100);
+            const finalOut = new OutputNode(single ? 'OUTPUT' : `OUTPUT_${oIdx}`, startX + 600, outY);
+            finalOut.label = outputNames[oIdx];
+            circuit.addNode(finalOut);
+
+            // Always 0 -> drive the Output from a constant
+            if (cover.length === 0) {
+                const zero = new ConstantNode(`CONST0_${oIdx}`, startX + 450, outY, false);
+                circuit.addNode(zero);
+                circuit.addConnection(zero.id, finalOut.id);
+                return;
+            }
+
+            const terms: CircuitNode[] = [];
+            cover.forEach(imp => {
+                termSources(imp).forEach(src => {
+                    if (!terms.includes(src)) terms.push(src);
+                });
+            });
+
+            // 4. OR all terms of this output
+            if (terms.length === 1) {
+                circuit.addConnection(terms[0].id, finalOut.id);
+                return;
+            }
+
+            const orGate = gateTree('OR', single ? 'OR_FINAL' : `OR_${oIdx}`, terms, startX + 500, outY);
+
+            // 5. Final Output
+            circuit.addConnection(orGate.id, finalOut.id);
+        });
 
         return circuit;
     }
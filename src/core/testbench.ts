@@ -0,0 +1,164 @@
+import { Circuit, InputNode, OutputNode, Util } from './engine';
+import type { Logic } from './logic';
+
+/** Error in a test-vector file, or a vector that does not fit the circuit. */
+export class TestVectorError extends Error {
+    line: number | null;
+
+    constructor(message: string, line: number | null = null) {
+        super(line === null ? message : `Line ${line}: ${message}`);
+        this.line = line;
+    }
+}
+
+/** A value in a test vector; null is a don't-care. */
+export type VectorValue = boolean | null;
+
+export interface TestVector {
+    line: number;
+    inputs: VectorValue[];
+    outputs: VectorValue[];
+}
+
+export interface TestVectors {
+    /** Labels of the driven inputs, in column order */
+    inputs: string[];
+    /** Labels of the checked outputs, in column order */
+    outputs: string[];
+    vectors: TestVector[];
+}
+
+export interface TestFailure {
+    line: number;
+    /** Applied input values, by label */
+    inputs: Record<string, boolean>;
+    expected: Record<string, VectorValue>;
+    actual: Record<string, Logic>;
+}
+
+export interface TestResult {
+    /** Number of applied input combinations (don't-care inputs expand to every value) */
+    checked: number;
+    failures: TestFailure[];
+}
+
+/**
+ * Test-vector file format
+ *
+ *   # full adder                comments start with '#'
+ *   A B Cin | S Cout            header: input labels | output labels
+ *   0 0 0   | 0 0               one vector per line
+ *   1 1 -   | - 1               '-' or 'x' is a don't-care
+ *
+ * A don't-care output is not checked; a don't-care input is tried with both values
+ * (at most Testbench.MAX_DONT_CARES of them per vector).
+ * Vectors are applied in file order without resetting, so sequential circuits can be
+ * stepped through.
+ */
+export function parseTestVectors(source: string): TestVectors {
+    let header: { inputs: string[], outputs: string[] } | null = null;
+    const vectors: TestVector[] = [];
+    const value = (text: string, line: number): VectorValue => {
+        if (text === '0' || text === '1') return text === '1';
+        if (text === '-' || text.toLowerCase() === 'x') return null;
+        throw new TestVectorError(`"${text}" is not a value; use 0, 1, or - / x for don't-care.`, line);
+    };
+
+    source.split(/\r?\n/).forEach((raw, index) => {
+        const line = index + 1;
+        const text = raw.replace(/#.*/, '').trim();
+        if (text === '') return;
+
+        const halves = text.split('|');
+        if (halves.length !== 2) throw new TestVectorError('expected inputs and outputs separated by a single "|".', line);
+        const [left, right] = halves.map(h => h.trim().split(/\s+/).filter(w => w !== ''));
+
+        if (!header) {
+            const labels = [...left, ...right];
+            const duplicate = labels.find((l, i) => labels.indexOf(l) !== i);
+            if (duplicate) throw new TestVectorError(`"${duplicate}" appears twice in the header.`, line);
+            if (right.length === 0) throw new TestVectorError('the header names no outputs to check.', line);
+            header = { inputs: left, outputs: right };
+            return;
+        }
+        if (left.length !== header.inputs.length || right.length !== header.outputs.length) {
+            throw new TestVectorError(`expected ${header.inputs.length} input and ${header.outputs.length} output values, found ${left.length} and ${right.length}.`, line);
+        }
+        vectors.push({ line, inputs: left.map(t => value(t, line)), outputs: right.map(t => value(t, line)) });
+    });
+
+    if (!header) throw new TestVectorError('the file has no header line ("inputs | outputs").');
+    const { inputs, outputs } = header;
+    return { inputs, outputs, vectors };
+}
+
+/** Drives a circuit through its INPUT labels and reads its OUTPUT labels. */
+export class Testbench {
+    /** Most don't-care inputs one vector may have; each doubles the combinations applied */
+    static MAX_DONT_CARES = 20;
+
+    /**
+     * Sets the named inputs (others keep their value), evaluates and returns every output level.
+     * Throws TestVectorError for unknown labels.
+     */
+    static evaluate(circuit: Circuit, assignment: Record<string, boolean>): Record<string, Logic> {
+        const inputs = Testbench.byLabel(Util.getNodesByType<InputNode>(circuit, 'INPUT'), Object.keys(assignment), 'input');
+        inputs.forEach((node, i) => node.setValue(Object.values(assignment)[i]));
+        circuit.evaluate();
+
+        const result: Record<string, Logic> = {};
+        Util.getNodesByType<OutputNode>(circuit, 'OUTPUT').forEach(out => { result[out.label] = out.level; });
+        return result;
+    }
+
+    /** Applies every vector in order and collects the mismatches. */
+    static run(circuit: Circuit, tests: TestVectors): TestResult {
+        const inputs = Testbench.byLabel(Util.getNodesByType<InputNode>(circuit, 'INPUT'), tests.inputs, 'input');
+        const outputs = Testbench.byLabel(Util.getNodesByType<OutputNode>(circuit, 'OUTPUT'), tests.outputs, 'output');
+        const result: TestResult = { checked: 0, failures: [] };
+
+        tests.vectors.forEach(vector => {
+            const free = Testbench.dontCares(vector);
+            for (let combination = 0; combination < 2 ** free.length; combination++) {
+                const applied = vector.inputs.map((v, i) => v ?? !!((combination >> free.indexOf(i)) & 1));
+                inputs.forEach((node, i) => node.setValue(applied[i]));
+                circuit.evaluate();
+                result.checked++;
+
+                const wrong = vector.outputs.some((expected, i) =>
+                    expected !== null && outputs[i].level !== (expected ? '1' : '0'));
+                if (!wrong) continue;
+
+                const failure: TestFailure = { line: vector.line, inputs: {}, expected: {}, actual: {} };
+                tests.inputs.forEach((label, i) => { failure.inputs[label] = applied[i]; });
+                tests.outputs.forEach((label, i) => {
+                    failure.expected[label] = vector.outputs[i];
+                    failure.actual[label] = outputs[i].level;
+                });
+                result.failures.push(failure);
+            }
+        });
+        return result;
+    }
+
+    /** Columns of the don't-care inputs of a vector; throws TestVectorError past MAX_DONT_CARES. */
+    static dontCares(vector: TestVector): number[] {
+        const free = vector.inputs.map((v, i) => v === null ? i : -1).filter(i => i >= 0);
+        if (free.length > Testbench.MAX_DONT_CARES) {
+            throw new TestVectorError(`${free.length} don't-care inputs expand to too many combinations (at most ${Testbench.MAX_DONT_CARES}).`, vector.line);
+        }
+        return free;
+    }
+
+    /** The node carrying each label; labels must name exactly one node. */
+    private static byLabel<T extends InputNode | OutputNode>(nodes: T[], labels: string[], kind: string): T[] {
+        return labels.map(label => {
+            const matches = nodes.filter(n => n.label === label);
+            if (matches.length === 0) {
+                throw new TestVectorError(`the circuit has no ${kind} labelled "${label}" (it has ${nodes.map(n => n.label).join(', ') || 'none'}).`);
+            }
+            if (matches.length > 1) throw new TestVectorError(`${matches.length} ${kind}s are labelled "${label}".`);
+            return matches[0];
+        });
+    }
+}
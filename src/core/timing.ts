@@ -0,0 +1,180 @@
+import { Circuit, CircuitNode, ClockNode, InputNode, OscillationError } from './engine';
+import { MinHeap } from './heap';
+import type { Logic } from './logic';
+
+/** A recorded signal change. */
+export interface TraceSample {
+    time: number;
+    level: Logic;
+}
+
+interface TimingEvent {
+    time: number;
+    /** Insertion order, so events at the same instant fire first-in first-out */
+    seq: number;
+    node: CircuitNode;
+    level: Logic;
+    cancelled: boolean;
+}
+
+/**
+ * Discrete-event simulation with propagation delays.
+ * When an input of a gate changes at time t, the gate's new output is scheduled for
+ * t + delay (transport delay), so glitches and hazards show up as short pulses.
+ * Clocks toggle every half period. Node levels are the live state, so the circuit's
+ * zero-delay evaluate() must not run while a simulator is in use.
+ */
+export class TimingSimulator {
+    /** Current simulated time */
+    time = 0;
+
+    private circuit: Circuit;
+    private queue = new MinHeap<TimingEvent>((a, b) => a.time - b.time || a.seq - b.seq);
+    private seq = 0;
+    /** Events not yet fired, per node, in time order */
+    private pending = new Map<CircuitNode, TimingEvent[]>();
+    private clocks = new Set<ClockNode>();
+    private traces = new Map<CircuitNode, TraceSample[]>();
+    /** Nodes changed since the last call to advance() */
+    private changed = new Set<CircuitNode>();
+
+    constructor(circuit: Circuit) {
+        this.circuit = circuit;
+        this.resync();
+    }
+
+    /**
+     * Picks up edits to the circuit: starts new clocks, forgets removed nodes and
+     * re-evaluates every gate at the current time.
+     */
+    resync() {
+        const present = (n: CircuitNode) => this.circuit.nodes.get(n.id) === n;
+        this.clocks.forEach(clock => { if (!present(clock)) this.clocks.delete(clock); });
+        this.traces.forEach((_, node) => { if (!present(node)) this.traces.delete(node); });
+        this.pending.forEach((events, node) => {
+            if (present(node)) return;
+            events.forEach(e => { e.cancelled = true; });
+            this.pending.delete(node);
+        });
+
+        this.circuit.nodes.forEach(node => {
+            if (node instanceof ClockNode) {
+                if (this.clocks.has(node)) return;
+                this.clocks.add(node);
+                this.scheduleTick(node, this.time + node.period / 2);
+            } else if (!(node instanceof InputNode)) {
+                this.evaluate(node);
+            }
+        });
+    }
+
+    /** Switches set from outside (clicked) at the current time. */
+    inputsChanged(nodes: CircuitNode[]) {
+        nodes.forEach(node => this.changedTo(node));
+    }
+
+    /** Starts recording the given nodes (and stops recording all others). */
+    watch(nodes: CircuitNode[]) {
+        const previous = this.traces;
+        this.traces = new Map(nodes.map(n => [n, previous.get(n) ?? [{ time: this.time, level: n.level }]]));
+    }
+
+    /** Recorded nodes with their changes, in the order they were given to watch(). */
+    getTraces(): Map<CircuitNode, readonly TraceSample[]> {
+        return this.traces;
+    }
+
+    /** Time of the next pending event, or null when the circuit is quiet. */
+    nextEventTime(): number | null {
+        this.dropCancelled();
+        return this.queue.peek()?.time ?? null;
+    }
+
+    /** Advances to the next pending event (or one time unit when nothing is pending). */
+    step(): CircuitNode[] {
+        return this.advance(this.nextEventTime() ?? this.time + 1);
+    }
+
+    /**
+     * Fires every event up to and including `until`.
+     * Throws OscillationError when zero-delay feedback keeps changing at one instant.
+     * @returns The nodes whose level changed (including switches set since the last call)
+     */
+    advance(until: number): CircuitNode[] {
+        let instant = -1;
+        let changesAtInstant = new Map<CircuitNode, number>();
+
+        for (;;) {
+            this.dropCancelled();
+            const event = this.queue.peek();
+            if (!event || event.time > until) break;
+            this.queue.pop();
+            this.time = event.time;
+
+            const events = this.pending.get(event.node)!;
+            events.splice(events.indexOf(event), 1);
+            if (events.length === 0) this.pending.delete(event.node);
+
+            if (event.level !== event.node.level) {
+                if (event.time !== instant) {
+                    instant = event.time;
+                    changesAtInstant = new Map();
+                }
+                const count = (changesAtInstant.get(event.node) ?? 0) + 1;
+                changesAtInstant.set(event.node, count);
+                if (count > Circuit.MAX_CHANGES_PER_NODE) {
+                    throw new OscillationError(Array.from(changesAtInstant.entries())
+                        .filter(([, c]) => c > Circuit.MAX_CHANGES_PER_NODE / 2)
+                        .map(([n]) => n));
+                }
+
+                event.node.level = event.level;
+                this.changedTo(event.node);
+            }
+            if (event.node instanceof ClockNode) this.scheduleTick(event.node, event.time + event.node.period / 2);
+        }
+
+        this.time = Math.max(this.time, until);
+        const changed = Array.from(this.changed);
+        this.changed.clear();
+        return changed;
+    }
+
+    /** Records a new level and lets the fan-out react to it. */
+    private changedTo(node: CircuitNode) {
+        this.changed.add(node);
+        this.traces.get(node)?.push({ time: this.time, level: node.level });
+        node.outgoing.forEach(c => this.evaluate(c.to));
+    }
+
+    /** Schedules the output a node will have after its delay, given its inputs now. */
+    private evaluate(node: CircuitNode) {
+        const next = this.circuit.nextLevel(node);
+        const events = this.pending.get(node) ?? [];
+        const projected = events.length > 0 ? events[events.length - 1].level : node.level;
+        if (next === projected) return;
+        this.schedule(node, this.time + this.circuit.delayOf(node), next);
+    }
+
+    private scheduleTick(clock: ClockNode, time: number) {
+        const events = this.pending.get(clock);
+        const current = events && events.length > 0 ? events[events.length - 1].level : clock.level;
+        this.schedule(clock, time, current === '1' ? '0' : '1');
+    }
+
+    /** Adds an event; it replaces the node's events at the same time or later (transport delay). */
+    private schedule(node: CircuitNode, time: number, level: Logic) {
+        const events = this.pending.get(node) ?? [];
+        while (events.length > 0 && events[events.length - 1].time >= time) {
+            events.pop()!.cancelled = true;
+        }
+        const event: TimingEvent = { time, seq: this.seq++, node, level, cancelled: false };
+        events.push(event);
+        this.pending.set(node, events);
+        this.queue.push(event);
+    }
+
+    private dropCancelled() {
+        while (this.queue.peek()?.cancelled) this.queue.pop();
+    }
+}
@@ -0,0 +1,243 @@
+import { Circuit, CircuitNode, CycleDetectedError, InputNode, OscillationError, OutputNode, Util } from './engine';
+import type { OutputFunction } from './synthesis';
+
+/** An output value; 'X' when four-state logic leaves it undetermined (or a loop never settles). */
+export type TableValue = boolean | 'X';
+
+export interface TruthTableRow {
+    /** Row number, see TruthTable for how it maps to input values */
+    index: number;
+    inputs: boolean[];
+    outputs: TableValue[];
+}
+
+/** Bit p of the lane number, for the five lowest row bits inside a 32-row word. */
+const LANE_PATTERNS = [0xAAAAAAAA | 0, 0xCCCCCCCC | 0, 0xF0F0F0F0 | 0, 0xFF00FF00 | 0, 0xFFFF0000 | 0];
+const WORD = 32;
+
+/** The circuit has more inputs than a truth table can enumerate. */
+export class TruthTableSizeError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Truth table over the top-level INPUT and OUTPUT nodes of a circuit.
+ *
+ * Ordering convention, shared with SynthesisEngine: columns are sorted by label (in
+ * natural order, so B2 comes before B10) and the first input is the most significant
+ * bit of the row number. Row r gives input i the value of bit N-1-i of r, so row 0 is
+ * all zeros and rows count up in binary from left to right.
+ *
+ * Acyclic circuits are evaluated 32 rows at a time straight from the gates, one row per
+ * bit of a 32-bit word (two words per signal in four-state logic: "is 1" and "is 0").
+ * This leaves the circuit untouched. Circuits with feedback loops are simulated row
+ * by row through evaluate(), so their rows depend on the state earlier rows left behind.
+ */
+export class TruthTable {
+    /** More inputs would number rows past what bitwise arithmetic can index */
+    static MAX_INPUTS = 30;
+
+    readonly inputs: InputNode[];
+    readonly outputs: OutputNode[];
+    readonly rowCount: number;
+
+    private circuit: Circuit;
+    /** Evaluation order for the word-parallel path; null for circuits with loops */
+    private order: readonly CircuitNode[] | null = null;
+    private slot = new Map<CircuitNode, number>();
+
+    /** Throws CycleDetectedError for a looped circuit in combinational mode, TruthTableSizeError past MAX_INPUTS. */
+    constructor(circuit: Circuit) {
+        const byLabel = (a: CircuitNode, b: CircuitNode) => a.label.localeCompare(b.label, undefined, { numeric: true });
+        this.circuit = circuit;
+        this.inputs = Util.getNodesByType<InputNode>(circuit, 'INPUT').sort(byLabel);
+        this.outputs = Util.getNodesByType<OutputNode>(circuit, 'OUTPUT').sort(byLabel);
+        if (this.inputs.length > TruthTable.MAX_INPUTS) {
+            throw new TruthTableSizeError(`A truth table supports at most ${TruthTable.MAX_INPUTS} inputs; this circuit has ${this.inputs.length}.`);
+        }
+        this.rowCount = 2 ** this.inputs.length;
+
+        try {
+            this.order = circuit.getEvaluationOrder();
+            this.order.forEach((node, i) => this.slot.set(node, i));
+        } catch (e) {
+            if (!(e instanceof CycleDetectedError) || circuit.mode === 'combinational') throw e;
+        }
+    }
+
+    get inputLabels(): string[] {
+        return this.inputs.map(n => n.label);
+    }
+
+    get outputLabels(): string[] {
+        return this.outputs.map(n => n.label);
+    }
+
+    /** Value of input `i` in row `index`. */
+    inputValue(index: number, i: number): boolean {
+        return ((index >>> (this.inputs.length - 1 - i)) & 1) === 1;
+    }
+
+    /** Rows `start` to `start + count - 1` (fewer at the end of the table). */
+    rows(start: number = 0, count: number = this.rowCount): TruthTableRow[] {
+        const end = Math.min(this.rowCount, start + count);
+        const rows: TruthTableRow[] = [];
+        if (start >= end) return rows;
+
+        if (!this.order) return this.simulateRows(start, end);
+        for (let base = start - start % WORD; base < end; base += WORD) {
+            const words = this.evaluateWord(base);
+            for (let index = Math.max(base, start); index < Math.min(base + WORD, end); index++) {
+                const lane = index - base;
+                rows.push({
+                    index,
+                    inputs: this.inputs.map((_, i) => this.inputValue(index, i)),
+                    outputs: words.map(([ones, zeros]) =>
+                        (ones >>> lane) & 1 ? true : (zeros >>> lane) & 1 ? false : 'X')
+                });
+            }
+        }
+        return rows;
+    }
+
+    /** Each output column as a synthesis specification; undetermined values become don't-cares. */
+    functions(): OutputFunction[] {
+        const rows = this.rows();
+        return this.outputs.map((out, i) => ({ name: out.label, targets: rows.map(r => r.outputs[i]) }));
+    }
+
+    /** Comma-separated values with a header line of labels. */
+    toCSV(): string {
+        return Array.from(this.csvLines(), line => `${line}\n`).join('');
+    }
+
+    /** GitHub-flavoured Markdown table; a blank-headed column separates inputs from outputs. */
+    toMarkdown(): string {
+        return Array.from(this.markdownLines(), line => `${line}\n`).join('');
+    }
+
+    /** The lines of toCSV(), produced a page of rows at a time so huge tables can be streamed. */
+    *csvLines(): Generator<string> {
+        const quote = (label: string) => /[",\n]/.test(label) ? `"${label.replace(/"/g, '""')}"` : label;
+        yield [...this.inputLabels, ...this.outputLabels].map(quote).join(',');
+        yield* this.rowLines(values => values.join(','));
+    }
+
+    /** The lines of toMarkdown(), produced a page of rows at a time so huge tables can be streamed. */
+    *markdownLines(): Generator<string> {
+        const escape = (label: string) => label.replace(/\|/g, '\\|');
+        yield `| ${[...this.inputLabels.map(escape), '', ...this.outputLabels.map(escape)].join(' | ')} |`;
+        yield `|${[...this.inputLabels, '', ...this.outputLabels].map(() => ':-:').join('|')}|`;
+        const ins = this.inputs.length;
+        yield* this.rowLines(values => `| ${[...values.slice(0, ins), '', ...values.slice(ins)].join(' | ')} |`);
+    }
+
+    private *rowLines(row: (values: string[]) => string): Generator<string> {
+        const page = 1024;
+        for (let start = 0; start < this.rowCount; start += page) {
+            for (const r of this.rows(start, page)) {
+                yield row([
+                    ...r.inputs.map(v => v ? '1' : '0'),
+                    ...r.outputs.map(v => v === 'X' ? 'X' : v ? '1' : '0')
+                ]);
+            }
+        }
+    }
+
+    /**
+     * Signals of 32 consecutive rows starting at `base` (a multiple of 32).
+     * @returns For each output, the lanes where it is 1 and the lanes where it is 0
+     */
+    private evaluateWord(base: number): [number, number][] {
+        const order = this.order!;
+        const ones = new Int32Array(order.length);
+        const zeros = new Int32Array(order.length);
+        const fourState = this.circuit.logic === 'four-state';
+        const inputBit = new Map(this.inputs.map((n, i) => [n as CircuitNode, this.inputs.length - 1 - i]));
+
+        order.forEach((node, k) => {
+            let one: number;
+            let zero: number;
+            // Four-state gates see every port (a floating one is unknown); binary ones only their wires
+            const sources: [number, number][] = fourState
+                ? node.inputPorts.map((_, port) => {
+                    const wire = node.inputAt(port);
+                    return wire ? [ones[this.slot.get(wire.from)!], zeros[this.slot.get(wire.from)!]] : [0, 0];
+                })
+                : node.incoming.map(c => [ones[this.slot.get(c.from)!], zeros[this.slot.get(c.from)!]]);
+            const and = (): [number, number] => sources.reduce(([o, z], [so, sz]) => [o & so, z | sz], [-1, 0]);
+            const or = (): [number, number] => sources.reduce(([o, z], [so, sz]) => [o | so, z & sz], [0, -1]);
+            const xor = (): [number, number] => {
+                let parity = 0;
+                let known = -1;
+                sources.forEach(([so, sz]) => { parity ^= so; known &= so | sz; });
+                return [parity & known, ~parity & known];
+            };
+
+            switch (node.type) {
+                case 'INPUT': {
+                    const bit = inputBit.get(node);
+                    if (bit === undefined) {
+                        // Switches inside component instances are not table columns
+                        [one, zero] = node.value ? [-1, 0] : [0, -1];
+                    } else {
+                        one = bit < 5 ? LANE_PATTERNS[bit] : (base >>> bit) & 1 ? -1 : 0;
+                        zero = ~one;
+                    }
+                    break;
+                }
+                case 'CLOCK':
+                case 'CONST0':
+                case 'CONST1': [one, zero] = node.value ? [-1, 0] : [0, -1]; break;
+                case 'AND': [one, zero] = and(); break;
+                case 'OR': [one, zero] = or(); break;
+                case 'XOR': [one, zero] = xor(); break;
+                case 'NAND': [zero, one] = and(); break;
+                case 'NOR': [zero, one] = or(); break;
+                case 'XNOR': [zero, one] = xor(); break;
+                case 'NOT':
+                    // Binary NOT with no input gives 0, like compute()
+                    [zero, one] = sources[0] ?? (fourState ? [0, 0] : [-1, 0]);
+                    break;
+                case 'COMPONENT': [one, zero] = [0, -1]; break;
+                // Outputs, buffers and component pins pass their first input through
+                default: [one, zero] = sources[0] ?? (fourState ? [0, 0] : [0, -1]);
+            }
+            ones[k] = one;
+            zeros[k] = zero;
+        });
+
+        return this.outputs.map(out => [ones[this.slot.get(out)!], zeros[this.slot.get(out)!]]);
+    }
+
+    /** Row-by-row simulation for circuits with loops; switches are put back afterwards. */
+    private simulateRows(start: number, end: number): TruthTableRow[] {
+        const saved = this.inputs.map(n => n.value);
+        const rows: TruthTableRow[] = [];
+        for (let index = start; index < end; index++) {
+            const inputs = this.inputs.map((_, i) => this.inputValue(index, i));
+            this.inputs.forEach((n, i) => n.setValue(inputs[i]));
+            let settled = true;
+            try {
+                this.circuit.evaluate();
+            } catch (e) {
+                if (!(e instanceof OscillationError)) throw e;
+                settled = false;
+            }
+            rows.push({
+                index,
+                inputs,
+                outputs: this.outputs.map(out => !settled || (out.level !== '0' && out.level !== '1') ? 'X' : out.value)
+            });
+        }
+        this.inputs.forEach((n, i) => n.setValue(saved[i]));
+        try {
+            this.circuit.evaluate();
+        } catch (e) {
+            if (!(e instanceof OscillationError)) throw e;
+        }
+        return rows;
+    }
+}
@@ -0,0 +1,104 @@
+import type { Logic } from './logic';
+import type { TraceSample } from './timing';
+import type { TruthTable } from './truthtable';
+
+/** One dumped signal and its changes in time order. */
+export interface VcdSignal {
+    name: string;
+    samples: readonly TraceSample[];
+}
+
+/**
+ * Value Change Dump (IEEE 1364 §18) of one-bit signals, readable by GTKWave and
+ * other HDL waveform viewers. Simulated time units are written as nanoseconds; when
+ * changes fall between whole units the timescale is refined so every time stays an integer.
+ */
+export class VcdWriter {
+    private static TIMESCALES = ['1ns', '100ps', '10ps', '1ps'];
+
+    /**
+     * @param end Time the recording stops; the dump is closed with this timestamp
+     */
+    static write(signals: VcdSignal[], end?: number, scope: string = 'circuit'): string {
+        const times = signals.flatMap(s => s.samples.map(sample => sample.time));
+        if (end !== undefined) times.push(end);
+        let precision = VcdWriter.TIMESCALES.findIndex((_, i) => times.every(t => Number.isInteger(t * 10 ** i)));
+        if (precision < 0) precision = VcdWriter.TIMESCALES.length - 1;
+        const tick = (time: number) => Math.round(time * 10 ** precision);
+
+        const codes = signals.map((_, i) => VcdWriter.code(i));
+        const lines = [
+            '$version Logic Simulator $end',
+            `$timescale ${VcdWriter.TIMESCALES[precision]} $end`,
+            `$scope module ${VcdWriter.reference(scope)} $end`,
+            ...signals.map((s, i) => `$var wire 1 ${codes[i]} ${VcdWriter.reference(s.name)} $end`),
+            '$upscope $end',
+            '$enddefinitions $end'
+        ];
+
+        // Last level of each signal at every tick; a signal may change several times in one tick
+        const changes = new Map<number, Map<number, Logic>>();
+        signals.forEach((s, i) => s.samples.forEach(sample => {
+            const t = tick(sample.time);
+            if (!changes.has(t)) changes.set(t, new Map());
+            changes.get(t)!.set(i, sample.level);
+        }));
+
+        const current = signals.map((): Logic | null => null);
+        const ticks = Array.from(changes.keys()).sort((a, b) => a - b);
+        ticks.forEach((t, index) => {
+            const values: string[] = [];
+            changes.get(t)!.forEach((level, i) => {
+                if (current[i] === level) return;
+                current[i] = level;
+                values.push(`${level.toLowerCase()}${codes[i]}`);
+            });
+            if (values.length === 0) return;
+            lines.push(`#${t}`);
+            if (index === 0) lines.push('$dumpvars', ...values, '$end');
+            else lines.push(...values);
+        });
+
+        const last = ticks.length > 0 ? ticks[ticks.length - 1] : -1;
+        if (end !== undefined && tick(end) > last) lines.push(`#${tick(end)}`);
+        lines.push('');
+        return lines.join('\n');
+    }
+
+    /**
+     * The truth-table sweep as a dump: row i of the TruthTable is shown from time i
+     * to i + 1, with the inputs followed by the outputs.
+     */
+    static fromTruthTable(table: TruthTable): string {
+        if (table.outputs.length === 0) return VcdWriter.write([]);
+        const rows = table.rows();
+
+        const toLevel = (v: boolean | 'X'): Logic => v === 'X' ? 'X' : v ? '1' : '0';
+        const signals: VcdSignal[] = [
+            ...table.inputLabels.map((name, i) => ({
+                name,
+                samples: rows.map((row, time) => ({ time, level: toLevel(row.inputs[i]) }))
+            })),
+            ...table.outputLabels.map((name, i) => ({
+                name,
+                samples: rows.map((row, time) => ({ time, level: toLevel(row.outputs[i]) }))
+            }))
+        ];
+        return VcdWriter.write(signals, rows.length);
+    }
+
+    /** Short identifier code from the printable ASCII range ('!' to '~'). */
+    private static code(index: number): string {
+        let code = '';
+        do {
+            code += String.fromCharCode(33 + index % 94);
+            index = Math.floor(index / 94);
+        } while (index > 0);
+        return code;
+    }
+
+    /** References may not contain whitespace. */
+    private static reference(name: string): string {
+        return name.trim().replace(/\s+/g, '_') || '_';
+    }
+}
@@ -0,0 +1,444 @@
+import { Circuit, CircuitNode, Util } from './engine';
+import { DesignRuleChecker } from './drc';
+import type { Expr } from './expression';
+import { NetlistBuilder, NetlistParseError, type SourcePosition } from './netlist';
+
+/** Words a Verilog identifier must not be. */
+const KEYWORDS = new Set([
+    'always', 'and', 'assign', 'begin', 'buf', 'bufif0', 'bufif1', 'case', 'casex', 'casez', 'cmos',
+    'deassign', 'default', 'defparam', 'disable', 'edge', 'else', 'end', 'endcase', 'endfunction',
+    'endmodule', 'endprimitive', 'endspecify', 'endtable', 'endtask', 'event', 'for', 'force',
+    'forever', 'fork', 'function', 'generate', 'genvar', 'highz0', 'highz1', 'if', 'initial', 'inout',
+    'input', 'integer', 'join', 'localparam', 'macromodule', 'module', 'nand', 'negedge', 'nmos', 'nor',
+    'not', 'notif0', 'notif1', 'or', 'output', 'parameter', 'pmos', 'posedge', 'primitive', 'pull0',
+    'pull1', 'pulldown', 'pullup', 'rcmos', 'real', 'realtime', 'reg', 'release', 'repeat', 'rnmos',
+    'rpmos', 'rtran', 'rtranif0', 'rtranif1', 'scalared', 'signed', 'specify', 'specparam', 'strong0',
+    'strong1', 'supply0', 'supply1', 'table', 'task', 'time', 'tran', 'tranif0', 'tranif1', 'tri',
+    'tri0', 'tri1', 'triand', 'trior', 'trireg', 'vectored', 'wait', 'wand', 'weak0', 'weak1', 'while',
+    'wire', 'wor', 'xnor', 'xor'
+]);
+
+/** Verilog gate primitive of each gate type. */
+const PRIMITIVES: Partial<Record<string, string>> = {
+    AND: 'and', OR: 'or', NAND: 'nand', NOR: 'nor', XOR: 'xor', XNOR: 'xnor', NOT: 'not', BUFFER: 'buf'
+};
+
+/** Output of each gate type with no input connected, as compute() gives it. */
+const UNCONNECTED: Partial<Record<string, boolean>> = {
+    AND: true, OR: false, NAND: false, NOR: true, XOR: false, XNOR: true, NOT: false, BUFFER: false
+};
+
+/** Hands out distinct legal identifiers. */
+class Namer {
+    private used = new Set<string>();
+
+    /** A legal identifier close to `text`; a numeric suffix keeps it unique. */
+    name(text: string): string {
+        let base = text.replace(/[^A-Za-z0-9_]/g, '_');
+        if (!/^[A-Za-z_]/.test(base)) base = `_${base}`;
+        if (KEYWORDS.has(base)) base = `${base}_`;
+        let name = base;
+        for (let i = 2; this.used.has(name); i++) name = `${base}_${i}`;
+        this.used.add(name);
+        return name;
+    }
+}
+
+/**
+ * Structural Verilog netlist of a circuit.
+ * INPUT/CLOCK and OUTPUT labels become the module ports, every gate becomes a gate
+ * primitive driving a wire named after its node id, and component instances are
+ * flattened (their pins are plain wire). Gates compute from their connected inputs
+ * only, as in the simulator; an input-less gate becomes a constant.
+ */
+export class VerilogExporter {
+    static export(circuit: Circuit, moduleName: string = 'circuit'): string {
+        const namer = new Namer();
+        const module = namer.name(moduleName);
+        const inputs = [...Util.getNodesByType(circuit, 'INPUT'), ...Util.getNodesByType(circuit, 'CLOCK')];
+        const outputs = Util.getNodesByType(circuit, 'OUTPUT');
+        const gates = Array.from(circuit.nodes.values()).filter(n => PRIMITIVES[n.type]);
+
+        const names = new Map<CircuitNode, string>();
+        inputs.forEach(n => names.set(n, namer.name(n.label)));
+        outputs.forEach(n => names.set(n, namer.name(n.label)));
+        gates.forEach(n => names.set(n, namer.name(`n_${n.id}`)));
+
+        /** Net carrying a node's output; pins are followed back to what drives them. */
+        const net = (node: CircuitNode): string => {
+            const seen = new Set<CircuitNode>();
+            let n: CircuitNode | undefined = node;
+            while (n && n.type === 'PIN' && !seen.has(n)) {
+                seen.add(n);
+                n = n.inputs[0];
+            }
+            if (!n || n.type === 'PIN' || n.type === 'CONST0') return "1'b0";
+            if (n.type === 'CONST1') return "1'b1";
+            return names.get(n) ?? "1'b0";
+        };
+
+        const ports = [...inputs, ...outputs].map(n => names.get(n)!);
+        const lines = [`module ${module} (${ports.join(', ')});`];
+        if (inputs.length > 0) lines.push(`    input ${inputs.map(n => names.get(n)).join(', ')};`);
+        if (outputs.length > 0) lines.push(`    output ${outputs.map(n => names.get(n)).join(', ')};`);
+        if (gates.length > 0) lines.push(`    wire ${gates.map(n => names.get(n)).join(', ')};`);
+        lines.push('');
+
+        gates.forEach(gate => {
+            const out = names.get(gate)!;
+            const sources = gate.inputs.map(net);
+            const comment = gate.parent ? ` // ${DesignRuleChecker.describe(gate)}` : '';
+
+            if (sources.length === 0) {
+                lines.push(`    assign ${out} = ${UNCONNECTED[gate.type] ? "1'b1" : "1'b0"};${comment}`);
+                return;
+            }
+            let primitive = PRIMITIVES[gate.type]!;
+            if (sources.length === 1 && !['NOT', 'BUFFER'].includes(gate.type)) {
+                // A one-input AND/OR/XOR passes its input through (the NAND family inverts it)
+                primitive = ['NAND', 'NOR', 'XNOR'].includes(gate.type) ? 'not' : 'buf';
+            }
+            lines.push(`    ${primitive} ${namer.name(`g_${out}`)} (${out}, ${sources.join(', ')});${comment}`);
+        });
+
+        outputs.forEach(out => {
+            const driver = out.inputs[0];
+            lines.push(`    assign ${names.get(out)} = ${driver ? net(driver) : "1'b0"};`);
+        });
+
+        lines.push('endmodule', '');
+        return lines.join('\n');
+    }
+}
+
+interface Token extends SourcePosition {
+    kind: 'ident' | 'number' | 'symbol' | 'eof';
+    text: string;
+}
+
+/** Longest first, so "~^" is not read as "~" followed by "^". */
+const SYMBOLS = [
+    '~&', '~|', '~^', '^~', '&&', '||', '==', '!=', '<=', '>=', '<<', '>>',
+    '(', ')', ',', ';', '=', '~', '!', '&', '|', '^', '[', ']', '{', '}', '?', ':', '#', '.', '@',
+    '+', '-', '*', '/', '%', '<', '>'
+];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1, column = 1, i = 0;
+
+    const push = (kind: Token['kind'], text: string) => tokens.push({ kind, text, line, column });
+    const advance = (count: number) => {
+        for (let k = 0; k < count; k++, i++) {
+            if (source[i] === '\n') { line++; column = 1; } else column++;
+        }
+    };
+
+    while (i < source.length) {
+        const rest = source.slice(i);
+        if (/^\s/.test(rest)) { advance(1); continue; }
+        if (rest.startsWith('//')) {
+            while (i < source.length && source[i] !== '\n') advance(1);
+            continue;
+        }
+        if (rest.startsWith('/*')) {
+            const end = source.indexOf('*/', i + 2);
+            if (end < 0) throw new NetlistParseError('comment is never closed.', line, column);
+            advance(end + 2 - i);
+            continue;
+        }
+
+        // Plain identifiers, escaped identifiers (\name ending at whitespace), compiler directives
+        const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(rest) ?? /^\\\S+/.exec(rest);
+        if (word) {
+            push('ident', word[0].startsWith('\\') ? word[0].slice(1) : word[0]);
+            advance(word[0].length);
+            continue;
+        }
+        const number = /^(\d+\s*)?'[sS]?[bBoOdDhH]\s*[0-9a-fA-F_xXzZ?]+|^\d+/.exec(rest);
+        if (number) {
+            push('number', number[0]);
+            advance(number[0].length);
+            continue;
+        }
+        if (rest.startsWith('`')) {
+            throw new NetlistParseError('compiler directives (`...) are not supported.', line, column);
+        }
+
+        const symbol = SYMBOLS.find(text => rest.startsWith(text));
+        if (!symbol) throw new NetlistParseError(`unexpected character "${source[i]}".`, line, column);
+        push('symbol', symbol);
+        advance(symbol.length);
+    }
+
+    push('eof', '');
+    return tokens;
+}
+
+const GATE_PRIMITIVES: Record<string, 'AND' | 'OR' | 'NAND' | 'NOR' | 'XOR' | 'XNOR' | 'NOT' | 'BUFFER'> = {
+    and: 'AND', or: 'OR', nand: 'NAND', nor: 'NOR', xor: 'XOR', xnor: 'XNOR', not: 'NOT', buf: 'BUFFER'
+};
+
+/** Why a construct outside the supported subset is rejected. */
+const UNSUPPORTED: Record<string, string> = {
+    reg: 'registers (reg) are not supported; the subset is purely structural.',
+    always: 'always blocks are not supported; the subset is purely structural.',
+    initial: 'initial blocks are not supported; the subset is purely structural.',
+    inout: 'inout ports are not supported.',
+    parameter: 'parameters are not supported.',
+    localparam: 'parameters are not supported.',
+    generate: 'generate blocks are not supported.',
+    genvar: 'generate blocks are not supported.',
+    function: 'functions are not supported.',
+    task: 'tasks are not supported.',
+    integer: 'integer variables are not supported.',
+    specify: 'specify blocks are not supported.',
+    supply0: 'supply nets are not supported; use 1\'b0 instead.',
+    supply1: 'supply nets are not supported; use 1\'b1 instead.',
+    tri: 'tri-state nets are not supported.',
+    bufif0: 'tri-state buffers are not supported.',
+    bufif1: 'tri-state buffers are not supported.',
+    notif0: 'tri-state buffers are not supported.',
+    notif1: 'tri-state buffers are not supported.',
+    '[': 'vectors and bit selects are not supported; declare each bit as its own net.',
+    '{': 'concatenation is not supported.',
+    '?': 'the conditional operator (?:) is not supported.',
+    '#': 'delays and parameter overrides (#) are not supported.',
+    '.': 'named port connections are not supported; list the connections in order.',
+    '@': 'event controls (@) are not supported; the subset is purely structural.'
+};
+
+/**
+ * Reads structural Verilog: a single module with its input/output ports (in the
+ * header or as declarations), wires, the gate primitives and, or, nand, nor, xor,
+ * xnor, not and buf, and continuous assignments using the bitwise operators
+ * ~ & | ^ ~^ (and their 1-bit logical forms ! && ||). All nets are one bit wide.
+ */
+export class VerilogImporter {
+    static toCircuit(source: string): Circuit {
+        const tokens = tokenize(source);
+        const netlist = new NetlistBuilder();
+        let pos = 0;
+        const peek = () => tokens[pos];
+        const next = () => tokens[pos++];
+        const fail = (token: SourcePosition, message: string): never => {
+            throw new NetlistParseError(message, token.line, token.column);
+        };
+        const describe = (t: Token) => t.kind === 'eof' ? 'end of file' : `"${t.text}"`;
+        const unsupported = (t: Token) => {
+            if (t.kind !== 'eof' && UNSUPPORTED[t.text]) fail(t, UNSUPPORTED[t.text]);
+        };
+        const expect = (text: string): Token => {
+            const t = next();
+            if (t.text !== text || t.kind === 'eof') {
+                unsupported(t);
+                fail(t, `expected "${text}" but found ${describe(t)}.`);
+            }
+            return t;
+        };
+        const ident = (what: string): Token => {
+            const t = next();
+            if (t.kind !== 'ident') {
+                unsupported(t);
+                fail(t, `expected ${what} but found ${describe(t)}.`);
+            }
+            return t;
+        };
+
+        const constant = (t: Token): boolean => {
+            const match = /^(?:(\d+)\s*)?'[sS]?([bBoOdDhH])\s*(.+)$/.exec(t.text);
+            const digits = (match ? match[3] : t.text).replace(/_/g, '');
+            if (match?.[1] !== undefined && match[1] !== '1') fail(t, `only 1-bit constants are supported, not ${match[1]}-bit "${t.text}".`);
+            if (/[xXzZ?]/.test(digits)) fail(t, `unknown and high-impedance constants ("${t.text}") are not supported.`);
+            const base = match ? { b: 2, o: 8, d: 10, h: 16 }[match[2].toLowerCase() as 'b' | 'o' | 'd' | 'h'] : 10;
+            const value = parseInt(digits, base);
+            if (value !== 0 && value !== 1) fail(t, `"${t.text}" does not fit in one bit.`);
+            return value === 1;
+        };
+
+        // Expressions, lowest precedence first: || && | ^ ~^ & unary
+        const binary = (operators: string[], kind: 'and' | 'or' | 'xor', operand: () => Expr): () => Expr => () => {
+            const operands = [operand()];
+            while (peek().kind === 'symbol' && operators.includes(peek().text)) {
+                const op = next().text;
+                const right = operand();
+                if (op === '~^' || op === '^~') {
+                    // XNOR is not associative with XOR, so it closes the chain so far
+                    const left: Expr = operands.length === 1 ? operands[0] : { kind, operands: [...operands] };
+                    operands.length = 0;
+                    operands.push({ kind: 'not', operand: { kind: 'xor', operands: [left, right] } });
+                } else {
+                    operands.push(right);
+                }
+            }
+            return operands.length === 1 ? operands[0] : { kind, operands };
+        };
+        const parseUnary = (): Expr => {
+            const t = peek();
+            if (t.kind === 'symbol') {
+                // On one-bit nets the reduction operators &a, |a, ^a are just a
+                if (t.text === '~' || t.text === '!') { next(); return { kind: 'not', operand: parseUnary() }; }
+                if (['&', '|', '^'].includes(t.text)) { next(); return parseUnary(); }
+                if (['~&', '~|', '~^', '^~'].includes(t.text)) { next(); return { kind: 'not', operand: parseUnary() }; }
+            }
+            return parsePrimary();
+        };
+        const parseBitAnd = binary(['&'], 'and', parseUnary);
+        const parseBitXor = binary(['^', '~^', '^~'], 'xor', parseBitAnd);
+        const parseBitOr = binary(['|'], 'or', parseBitXor);
+        const parseLogicAnd = binary(['&&'], 'and', parseBitOr);
+        const parseExpr = binary(['||'], 'or', parseLogicAnd);
+        const parsePrimary = (): Expr => {
+            const t = next();
+            if (t.kind === 'ident') {
+                if (peek().text === '(') fail(peek(), 'function calls are not supported.');
+                return { kind: 'var', name: t.text };
+            }
+            if (t.kind === 'number') return { kind: 'const', value: constant(t) };
+            if (t.text === '(' && t.kind === 'symbol') {
+                const inner = parseExpr();
+                expect(')');
+                return inner;
+            }
+            unsupported(t);
+            if (t.kind === 'symbol' && !['(', ')', ',', ';', '='].includes(t.text)) {
+                fail(t, `operator "${t.text}" is not supported; only the bitwise operators ~ & | ^ ~^ are.`);
+            }
+            return fail(t, `expected a net, a constant or "(" but found ${describe(t)}.`);
+        };
+        /** Checks what follows an expression, so "a + b" reports the operator. */
+        const endOfExpression = (allowed: string[]) => {
+            const t = peek();
+            if (t.kind === 'symbol' && allowed.includes(t.text)) return;
+            unsupported(t);
+            if (t.kind === 'symbol') fail(t, `operator "${t.text}" is not supported; only the bitwise operators ~ & | ^ ~^ are.`);
+            fail(t, `expected ${allowed.map(a => `"${a}"`).join(' or ')} but found ${describe(t)}.`);
+        };
+
+        // Ports listed in the module header; directions may come with them or in declarations
+        const headerPorts = new Map<string, Token>();
+        const directions = new Map<string, 'input' | 'output'>();
+        const declarePort = (t: Token, direction: 'input' | 'output') => {
+            if (directions.has(t.text)) fail(t, `port "${t.text}" is declared twice.`);
+            directions.set(t.text, direction);
+            if (direction === 'input') netlist.input(t.text, t);
+            else netlist.output(t.text, t);
+        };
+        const skipNetType = () => {
+            if (peek().text === 'wire') next();
+            unsupported(peek());
+        };
+
+        const moduleToken = peek();
+        if (moduleToken.kind === 'eof') fail(moduleToken, 'no module found.');
+        if (moduleToken.text !== 'module') {
+            unsupported(moduleToken);
+            fail(moduleToken, `expected "module" but found ${describe(moduleToken)}.`);
+        }
+        next();
+        ident('a module name');
+        let ansi = false;
+        if (peek().text === '(') {
+            next();
+            let direction: 'input' | 'output' | null = null;
+            while (peek().text !== ')') {
+                const t = peek();
+                if (t.text === 'input' || t.text === 'output') {
+                    next();
+                    direction = t.text;
+                    ansi = true;
+                    skipNetType();
+                } else if (ansi && t.kind === 'ident' && direction === null) {
+                    fail(t, `port "${t.text}" needs a direction.`);
+                }
+                const name = ident('a port name');
+                if (headerPorts.has(name.text)) fail(name, `port "${name.text}" is listed twice.`);
+                headerPorts.set(name.text, name);
+                if (direction) declarePort(name, direction);
+                if (peek().text !== ',') break;
+                next();
+            }
+            expect(')');
+        }
+        expect(';');
+
+        for (;;) {
+            const t = next();
+            if (t.kind === 'eof') fail(t, 'expected "endmodule" but the file ended.');
+            if (t.text === 'endmodule') break;
+
+            if (t.text === 'input' || t.text === 'output') {
+                if (ansi) fail(t, 'ports are already declared in the module header.');
+                skipNetType();
+                do {
+                    const name = ident('a port name');
+                    if (!headerPorts.has(name.text)) fail(name, `"${name.text}" is not in the module's port list.`);
+                    declarePort(name, t.text);
+                } while (peek().text === ',' && next());
+                expect(';');
+            } else if (t.text === 'wire') {
+                unsupported(peek());
+                do {
+                    const name = ident('a net name');
+                    if (peek().text === '=') {
+                        // Net declaration assignment: wire y = expr;
+                        const eq = next();
+                        netlist.expression(parseExpr(), eq, name.text);
+                        endOfExpression([',', ';']);
+                    }
+                } while (peek().text === ',' && next());
+                expect(';');
+            } else if (t.text === 'assign') {
+                unsupported(peek());
+                do {
+                    const target = ident('a net to assign');
+                    if (peek().text === '[') unsupported(peek());
+                    const eq = expect('=');
+                    netlist.expression(parseExpr(), eq, target.text);
+                    endOfExpression([',', ';']);
+                } while (peek().text === ',' && next());
+                expect(';');
+            } else if (t.kind === 'ident' && GATE_PRIMITIVES[t.text]) {
+                const type = GATE_PRIMITIVES[t.text];
+                unsupported(peek());
+                do {
+                    if (peek().kind === 'ident') next(); // Instance name
+                    const open = expect('(');
+                    const terminals: { token: Token, expr: Expr }[] = [];
+                    do {
+                        const token = peek();
+                        terminals.push({ token, expr: parseExpr() });
+                        endOfExpression([',', ')']);
+                    } while (peek().text === ',' && next());
+                    expect(')');
+
+                    // not/buf drive every terminal but the last; the others drive the first
+                    const single = type === 'NOT' || type === 'BUFFER';
+                    const outputCount = single ? terminals.length - 1 : 1;
+                    if (terminals.length < 2) fail(open, `the ${t.text} primitive needs an output and at least one input.`);
+                    const outputs = terminals.slice(0, outputCount).map(({ token, expr }) =>
+                        expr.kind === 'var' ? expr.name : fail(token, `the output of a ${t.text} primitive must be a net.`));
+                    const inputs = terminals.slice(outputCount).map(term => netlist.expression(term.expr, term.token));
+                    outputs.forEach((net, i) => netlist.cell(type, inputs, net, terminals[i].token));
+                } while (peek().text === ',' && next());
+                expect(';');
+            } else if (t.kind === 'ident' && t.text === 'module') {
+                fail(t, 'modules cannot be nested; only one module per file is supported.');
+            } else if (t.kind === 'ident' && !UNSUPPORTED[t.text] && peek().kind === 'ident') {
+                fail(t, `instantiating module "${t.text}" is not supported; flatten the design to gate primitives first.`);
+            } else {
+                unsupported(t);
+                fail(t, `unexpected ${describe(t)}.`);
+            }
+        }
+
+        headerPorts.forEach((token, name) => {
+            if (!directions.has(name)) fail(token, `port "${name}" is never declared as input or output.`);
+        });
+        const trailing = peek();
+        if (trailing.kind !== 'eof') {
+            fail(trailing, trailing.text === 'module' ? 'only one module per file is supported.' : `unexpected ${describe(trailing)} after "endmodule".`);
+        }
+        return netlist.build();
+    }
+}
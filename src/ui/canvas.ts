@@ -1,7 +1,33 @@
 
-import { Circuit, CircuitNode, type NodeType, AndGate, OrGate, NotGate, InputNode, OutputNode, CycleDetectedError } from '../core/engine';
+import { Circuit, CircuitNode, type Connection, type NodeType, InputNode, ClockNode, ConnectionError, MULTI_INPUT_TYPES, MIN_FAN_IN, ComponentNode, CycleDetectedError, OscillationError, type SimulationMode, Util } from '../core/engine';
+import { CircuitFormatError, parseCircuitDocument, type CircuitDocument, type ComponentDocument } from '../core/serialization';
+import { ComponentLibrary, ComponentError } from '../core/components';
 import { ModalManager } from './modal';
-import { SynthesisEngine } from '../core/synthesis';
+import { boundsOf, Minimap, type Rect } from './minimap';
+import { IssuePanel } from './issues';
+import { MetricsPanel } from './metrics';
+import { WaveformView } from './waveform';
+import { SynthesisEngine, type OutputFunction } from '../core/synthesis';
+import { KarnaughMap } from '../core/kmap';
+import { parseExpressions, ExpressionCompiler, ExpressionParseError, ExpressionSizeError } from '../core/expression';
+import { CommandHistory, AddNodeCommand, AddNodesCommand, ConnectCommand, LayoutCommand, MoveNodesCommand, RemoveCommand, ReplaceCircuitCommand, SetBendsCommand, SetClockPeriodCommand, SetDelaysCommand, SetInputCountCommand, SetLogicSystemCommand, SetSimulationModeCommand } from '../core/history';
+import { Clipboard } from '../core/clipboard';
+import { LayoutEngine } from '../core/layout';
+import { WireRouter, type Point } from '../core/routing';
+import { DesignRuleChecker, type DesignIssue } from '../core/drc';
+import { TimingSimulator } from '../core/timing';
+import { VerilogExporter, VerilogImporter } from '../core/verilog';
+import { BlifImporter } from '../core/blif';
+import { NetlistParseError } from '../core/netlist';
+import { EquivalenceChecker, EquivalenceError } from '../core/equivalence';
+import { BddLimitError } from '../core/bdd';
+import { VcdWriter } from '../core/vcd';
+import { FaultSimulator, type Fault } from '../core/faults';
+import { CircuitMetrics, type MetricsReport } from '../core/metrics';
+import { TruthTable, TruthTableSizeError } from '../core/truthtable';
+import type { Logic, LogicSystem } from '../core/logic';
+
+export type WireStyle = 'curved' | 'manhattan';
 
 export class CanvasManager {
     private circuit: Circuit;
@@ -10,9 +36,9 @@ export class CanvasManager {
     private svgLayer: SVGSVGElement;
     private draggedNodeId: string | null = null;
     private initialMousePos = { x: 0, y: 0 };
-    private initialNodePos = { x: 0, y: 0 };
 
     private panOffset = { x: 0, y: 0 };
+    private zoom = 1;
     private isPanning = false;
     private panStart = { x: 0, y: 0 };
 
@@ -21,6 +47,50 @@ export class CanvasManager {
     private tempWire: SVGPathElement | null = null;
 
     private modalManager: ModalManager;
+    private history = new CommandHistory();
+    private library = new ComponentLibrary();
+    /** Component instance currently "stepped into"; null shows the top level. */
+    private viewRoot: ComponentNode | null = null;
+
+    private selectedNodes: Set<CircuitNode> = new Set();
+    private selectedWires: Set<Connection> = new Set();
+    private clipboard: CircuitDocument | null = null;
+    /** Pastes of the current clipboard so far; each lands a bit further down-right. */
+    private pasteCount = 0;
+
+    private static AUTOSAVE_KEY = 'logic-sim.autosave';
+    private static LIBRARY_KEY = 'logic-sim.components';
+    private static WIRE_STYLE_KEY = 'logic-sim.wire-style';
+    private static MIN_ZOOM = 0.2;
+    private static MAX_ZOOM = 3;
+    /** Extra wire area kept around the circuit (curves and detours bulge past the pins) */
+    private static SVG_MARGIN = 200;
+
+    private minimap: Minimap | null = null;
+    private issuePanel: IssuePanel | null = null;
+    private metricsPanel: MetricsPanel | null = null;
+    /** Metrics of the design synthesis replaced, shown for comparison */
+    private metricsBaseline: { report: MetricsReport, title: string } | null = null;
+    /** Critical path on display (empty when not highlighted) */
+    private criticalNodes: Set<CircuitNode> = new Set();
+    private criticalWires: Set<Connection> = new Set();
+    /** Stuck-at faults marked from the fault analysis */
+    private faultMarks: Fault[] = [];
+    /** DOM of what is currently drawn, so updates touch only what changed */
+    private nodeElements: Map<CircuitNode, HTMLElement> = new Map();
+    private wireElements: Map<Connection, SVGPathElement> = new Map();
+    private junctionElements: Map<CircuitNode, SVGCircleElement[]> = new Map();
+    /** Manhattan mode: last computed route of each drawn wire, used to place junction dots */
+    private wireRoutes: Map<Connection, Point[]> = new Map();
+    private wireStyle: WireStyle = 'curved';
+    private saveTimer: number | null = null;
+
+    /** Timing simulation in progress; null while values come from the zero-delay evaluation */
+    private timing: TimingSimulator | null = null;
+    private timingFrame: number | null = null;
+    private waveform: WaveformView | null = null;
+    /** Nodes shown in the waveform panel */
+    private watched: CircuitNode[] = [];
 
     constructor(container: HTMLElement, svgLayer: SVGSVGElement) {
         this.circuit = new Circuit();
@@ -29,18 +99,66 @@ export class CanvasManager {
         this.panLayer = document.getElementById('pan-layer');
         this.modalManager = new ModalManager();
 
+        const minimapCanvas = document.getElementById('minimap') as HTMLCanvasElement | null;
+        if (minimapCanvas) {
+            this.minimap = new Minimap(minimapCanvas, (x, y) => this.centerOn(x, y));
+        }
+        const issueElement = document.getElementById('issue-panel');
+        if (issueElement) {
+            this.issuePanel = new IssuePanel(issueElement, issue => this.highlightIssue(issue));
+        }
+        const metricsElement = document.getElementById('metrics-panel');
+        if (metricsElement) {
+            this.metricsPanel = new MetricsPanel(metricsElement, () => this.updateMetrics(), () => {
+                this.metricsBaseline = null;
+                this.updateMetrics();
+            });
+        }
+        const waveformCanvas = document.getElementById('waveform') as HTMLCanvasElement | null;
+        const waveformReadout = document.getElementById('waveform-readout');
+        if (waveformCanvas && waveformReadout) {
+            this.waveform = new WaveformView(waveformCanvas, waveformReadout);
+        }
+
+        if (localStorage.getItem(CanvasManager.WIRE_STYLE_KEY) === 'manhattan') this.wireStyle = 'manhattan';
+
         this.setupEventListeners();
         this.setupSidebarEvents();
         this.setupCanvasNavigation();
+        this.setupKeyboardShortcuts();
 
-        this.resizeSvg();
-        window.addEventListener('resize', () => this.resizeSvg());
+        window.addEventListener('resize', () => this.renderMinimap());
+        window.addEventListener('beforeunload', () => this.flushSession());
+
+        this.restoreLibrary();
+        this.restoreSession();
     }
 
+    /** Boxes of the nodes drawn at the current level, in canvas coordinates. */
+    private nodeRects(): Rect[] {
+        return this.visibleNodes().map(n => ({ x: n.x, y: n.y, ...LayoutEngine.nodeSize(n) }));
+    }
+
+    /** Grows (or shrinks) the wire layer to cover the circuit and wire bends, including negative coordinates. */
     private resizeSvg() {
-        // Large SVG for panning
-        this.svgLayer.setAttribute('width', '5000');
-        this.svgLayer.setAttribute('height', '5000');
+        const rects = this.nodeRects();
+        this.circuit.nodes.forEach(node => node.incoming.forEach(wire => {
+            wire.bends?.forEach(b => rects.push({ x: b.x, y: b.y, width: 0, height: 0 }));
+        }));
+        const m = CanvasManager.SVG_MARGIN;
+        // The origin is always covered
+        const bounds = boundsOf([...rects, { x: 0, y: 0, width: 0, height: 0 }]);
+        const minX = bounds.minX - m;
+        const minY = bounds.minY - m;
+        const maxX = bounds.maxX + m;
+        const maxY = bounds.maxY + m;
+
+        this.svgLayer.style.left = `${minX}px`;
+        this.svgLayer.style.top = `${minY}px`;
+        this.svgLayer.setAttribute('width', String(maxX - minX));
+        this.svgLayer.setAttribute('height', String(maxY - minY));
+        // The view box keeps paths in canvas coordinates wherever the layer starts
+        this.svgLayer.setAttribute('viewBox', `${minX} ${minY} ${maxX - minX} ${maxY - minY}`);
     }
 
     // --- Canvas Navigation ---
@@ -49,6 +167,11 @@ export class CanvasManager {
         this.container.addEventListener('mousedown', (e) => {
             if ((e.target as HTMLElement).closest('.gate')) return;
             if (e.target === this.container || e.target === this.panLayer || e.target === this.svgLayer) {
+                if (e.shiftKey) {
+                    this.startRubberBand(e);
+                    return;
+                }
+                this.setSelection([], []);
                 this.isPanning = true;
                 this.panStart = { x: e.clientX - this.panOffset.x, y: e.clientY - this.panOffset.y };
                 this.container.style.cursor = 'grabbing';
@@ -70,6 +193,31 @@ export class CanvasManager {
             }
         });
 
+        // Wheel zooms around the cursor; trackpad pinches arrive as wheel events with ctrlKey
+        this.container.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            const factor = Math.pow(e.ctrlKey ? 1.01 : 1.0015, -e.deltaY);
+            this.zoomAt(e.clientX, e.clientY, this.zoom * factor);
+        }, { passive: false });
+
+        // Two-finger pinch on touch screens
+        let pinch: { distance: number, zoom: number } | null = null;
+        const touchDistance = (t: TouchList) => Math.hypot(t[0].clientX - t[1].clientX, t[0].clientY - t[1].clientY);
+        this.container.addEventListener('touchstart', (e) => {
+            if (e.touches.length === 2) pinch = { distance: touchDistance(e.touches), zoom: this.zoom };
+        });
+        this.container.addEventListener('touchmove', (e) => {
+            if (!pinch || e.touches.length !== 2) return;
+            e.preventDefault();
+            const cx = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+            const cy = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+            this.zoomAt(cx, cy, pinch.zoom * touchDistance(e.touches) / pinch.distance);
+        }, { passive: false });
+        this.container.addEventListener('touchend', () => { pinch = null; });
+
+        document.getElementById('btn-fit')?.addEventListener('click', () => this.fitToView());
+        document.getElementById('btn-tidy')?.addEventListener('click', () => this.tidyLayout());
+
         const btnClear = document.getElementById('btn-clear');
         if (btnClear) {
             btnClear.addEventListener('click', () => this.clearAll());
@@ -78,30 +226,630 @@ export class CanvasManager {
 
     private updateTransform() {
         if (this.panLayer) {
-            this.panLayer.style.transform = `translate(${this.panOffset.x}px, ${this.panOffset.y}px)`;
+            this.panLayer.style.transform = `translate(${this.panOffset.x}px, ${this.panOffset.y}px) scale(${this.zoom})`;
+        }
+        const grid = 20 * this.zoom;
+        this.container.style.backgroundSize = `${grid}px ${grid}px`;
+        this.container.style.backgroundPosition = `${this.panOffset.x % grid}px ${this.panOffset.y % grid}px`;
+        this.renderMinimap();
+    }
+
+    /** Changes the zoom level keeping the canvas point under (clientX, clientY) in place. */
+    private zoomAt(clientX: number, clientY: number, zoom: number) {
+        const rect = this.container.getBoundingClientRect();
+        const anchor = this.toCanvasPoint({ clientX, clientY });
+        this.zoom = Math.min(CanvasManager.MAX_ZOOM, Math.max(CanvasManager.MIN_ZOOM, zoom));
+        this.panOffset.x = clientX - rect.left - anchor.x * this.zoom;
+        this.panOffset.y = clientY - rect.top - anchor.y * this.zoom;
+        this.updateTransform();
+    }
+
+    /** Pans so the canvas point (x, y) is in the middle of the screen. */
+    private centerOn(x: number, y: number) {
+        this.panOffset.x = this.container.clientWidth / 2 - x * this.zoom;
+        this.panOffset.y = this.container.clientHeight / 2 - y * this.zoom;
+        this.updateTransform();
+    }
+
+    /** Zooms and pans so the whole visible circuit fits on screen (never zooming in past 100%). */
+    private fitToView() {
+        const rects = this.nodeRects();
+        if (rects.length === 0) return;
+        const margin = 40;
+        const { minX, minY, maxX, maxY } = boundsOf(rects);
+
+        const fit = Math.min(
+            (this.container.clientWidth - 2 * margin) / (maxX - minX),
+            (this.container.clientHeight - 2 * margin) / (maxY - minY),
+            1
+        );
+        this.zoom = Math.min(CanvasManager.MAX_ZOOM, Math.max(CanvasManager.MIN_ZOOM, fit));
+        this.centerOn((minX + maxX) / 2, (minY + maxY) / 2);
+    }
+
+    /** Re-arranges the top-level circuit into columns (one undo step). */
+    private tidyLayout() {
+        if (this.viewRoot) {
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = "Component internals are read-only. Go back to the top level to edit.";
+            return;
         }
-        this.container.style.backgroundPosition = `${this.panOffset.x % 20}px ${this.panOffset.y % 20}px`;
+        const moves = Array.from(LayoutEngine.compute(this.circuit).entries())
+            .map(([node, to]) => ({ node, from: { x: node.x, y: node.y }, to }));
+        if (moves.length === 0) return;
+
+        this.history.execute(new LayoutCommand(this.circuit, moves));
+        this.refreshView();
+        this.fitToView();
+    }
+
+    private renderMinimap() {
+        if (!this.minimap) return;
+        this.minimap.render(this.nodeRects(), {
+            x: -this.panOffset.x / this.zoom,
+            y: -this.panOffset.y / this.zoom,
+            width: this.container.clientWidth / this.zoom,
+            height: this.container.clientHeight / this.zoom
+        });
     }
 
     private clearAll() {
-        this.circuit = new Circuit();
+        // Settings (mode, logic system, delays) go back to their defaults with the content
+        const empty = new Circuit();
+        this.history.execute(new ReplaceCircuitCommand(this.circuit, empty, 'Clear all'));
+        this.refreshView();
+    }
+
+    /**
+     * Replaces the canvas content with another circuit.
+     * @param recordHistory false for session restores, which start a fresh history instead of being undoable
+     */
+    public loadCircuit(newCircuit: Circuit, recordHistory: boolean = true) {
+        if (recordHistory) {
+            this.history.execute(new ReplaceCircuitCommand(this.circuit, newCircuit, 'Load circuit'));
+        } else {
+            this.circuit.swapContents(newCircuit);
+            this.history.clear();
+        }
+        this.refreshView();
+    }
+
+    /** Re-creates every DOM node from the model (after loads and undo/redo). */
+    private refreshView() {
         const gates = this.panLayer?.querySelectorAll('.gate');
         gates?.forEach(g => g.remove());
-        this.redrawWires();
-    }
+        this.nodeElements.clear();
 
-    public loadCircuit(newCircuit: Circuit) {
-        this.clearAll();
-        this.circuit = newCircuit;
+        // The inspected instance may have been removed by undo or a load
+        while (this.viewRoot && this.circuit.nodes.get(this.viewRoot.id) !== this.viewRoot) {
+            this.viewRoot = this.viewRoot.parent;
+        }
+        this.renderBreadcrumb();
+
+        // Wire objects are recreated by undo/redo, so only node selection survives
+        this.selectedNodes = new Set(Array.from(this.selectedNodes)
+            .filter(n => this.circuit.nodes.get(n.id) === n && n.parent === this.viewRoot));
+        this.selectedWires.clear();
+
+        const modeSelect = document.getElementById('sim-mode') as HTMLSelectElement | null;
+        if (modeSelect) modeSelect.value = this.circuit.mode;
+        const logicSelect = document.getElementById('logic-system') as HTMLSelectElement | null;
+        if (logicSelect) logicSelect.value = this.circuit.logic;
 
         // Render all nodes
         this.circuit.nodes.forEach(node => {
-            this.renderNode(node);
+            if (node.parent === this.viewRoot) this.renderNode(node);
         });
+        this.redrawWires();
         // Initial eval
         this.updateSimulation();
     }
 
+    // --- History ---
+
+    private undo() {
+        if (this.history.undo()) this.refreshView();
+    }
+
+    private redo() {
+        if (this.history.redo()) this.refreshView();
+    }
+
+    private setupKeyboardShortcuts() {
+        window.addEventListener('keydown', (e) => {
+            const target = e.target as HTMLElement;
+            if (target.closest('input, select, textarea, .modal-overlay')) return;
+
+            if (e.key === 'Delete' || e.key === 'Backspace') {
+                e.preventDefault();
+                this.deleteSelection();
+                return;
+            }
+            if (e.key === 'Escape') {
+                this.setSelection([], []);
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                this.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                this.redo();
+            } else if (key === 'c') {
+                e.preventDefault();
+                this.copySelection();
+            } else if (key === 'v') {
+                e.preventDefault();
+                this.paste();
+            } else if (key === 'd') {
+                e.preventDefault();
+                this.duplicateSelection();
+            }
+        });
+    }
+
+    // --- Selection & Clipboard ---
+
+    private setSelection(nodes: CircuitNode[], wires: Connection[]) {
+        this.selectedNodes = new Set(nodes);
+        this.selectedWires = new Set(wires);
+        this.nodeElements.forEach((el, node) => el.classList.toggle('selected', this.selectedNodes.has(node)));
+        this.wireElements.forEach((path, wire) => path.classList.toggle('selected', this.selectedWires.has(wire)));
+    }
+
+    /** Click selection; Shift adds to or removes from the current selection. */
+    private toggleSelection(e: MouseEvent, node: CircuitNode | null, wire: Connection | null) {
+        const nodes = e.shiftKey ? Array.from(this.selectedNodes) : [];
+        const wires = e.shiftKey ? Array.from(this.selectedWires) : [];
+        const flip = <T>(list: T[], item: T | null) => {
+            if (item === null) return;
+            const index = list.indexOf(item);
+            if (index === -1) list.push(item);
+            else list.splice(index, 1);
+        };
+        flip(nodes, node);
+        flip(wires, wire);
+        this.setSelection(nodes, wires);
+    }
+
+    /** Shift+drag on empty canvas: select every node inside the box and every wire between them. */
+    private startRubberBand(e: MouseEvent) {
+        const start = this.toCanvasPoint(e);
+        const band = document.createElement('div');
+        band.className = 'rubber-band';
+        this.panLayer?.appendChild(band);
+        const additive = { nodes: Array.from(this.selectedNodes), wires: Array.from(this.selectedWires) };
+
+        const bounds = (em: MouseEvent) => {
+            const p = this.toCanvasPoint(em);
+            return { left: Math.min(start.x, p.x), top: Math.min(start.y, p.y), right: Math.max(start.x, p.x), bottom: Math.max(start.y, p.y) };
+        };
+
+        const onMove = (em: MouseEvent) => {
+            const b = bounds(em);
+            band.style.left = `${b.left}px`;
+            band.style.top = `${b.top}px`;
+            band.style.width = `${b.right - b.left}px`;
+            band.style.height = `${b.bottom - b.top}px`;
+        };
+
+        const onUp = (em: MouseEvent) => {
+            band.remove();
+            window.removeEventListener('mousemove', onMove);
+            window.removeEventListener('mouseup', onUp);
+
+            const b = bounds(em);
+            const inside = this.visibleNodes().filter(n => {
+                const size = LayoutEngine.nodeSize(n);
+                return n.x >= b.left && n.y >= b.top && n.x + size.width <= b.right && n.y + size.height <= b.bottom;
+            });
+            const endpoints = new Set<CircuitNode>();
+            inside.forEach(n => {
+                endpoints.add(n);
+                if (n instanceof ComponentNode) n.descendants().forEach(d => endpoints.add(d));
+            });
+            const wires: Connection[] = [];
+            endpoints.forEach(n => n.incoming.forEach(w => {
+                if (endpoints.has(w.from) && this.isWireVisible(w)) wires.push(w);
+            }));
+
+            this.setSelection(
+                [...additive.nodes, ...inside.filter(n => !additive.nodes.includes(n))],
+                [...additive.wires, ...wires.filter(w => !additive.wires.includes(w))]
+            );
+        };
+
+        window.addEventListener('mousemove', onMove);
+        window.addEventListener('mouseup', onUp);
+    }
+
+    private deleteSelection() {
+        if (this.viewRoot) return; // Component internals are read-only
+        if (this.selectedNodes.size === 0 && this.selectedWires.size === 0) return;
+
+        this.history.execute(new RemoveCommand(this.circuit, Array.from(this.selectedNodes), Array.from(this.selectedWires)));
+        this.selectedNodes.clear();
+        this.selectedWires.clear();
+        this.refreshView();
+    }
+
+    private copySelection() {
+        if (this.selectedNodes.size === 0) return;
+        this.clipboard = Clipboard.copy(this.circuit, Array.from(this.selectedNodes));
+        this.pasteCount = 0;
+    }
+
+    private paste() {
+        if (!this.clipboard || this.viewRoot) return;
+        this.pasteCount++;
+        this.pasteDocument(this.clipboard, 20 * this.pasteCount);
+    }
+
+    /** Ctrl+D: copy and paste in one step, leaving the clipboard alone. */
+    private duplicateSelection() {
+        if (this.selectedNodes.size === 0 || this.viewRoot) return;
+        this.pasteDocument(Clipboard.copy(this.circuit, Array.from(this.selectedNodes)), 20);
+    }
+
+    /** Adds a copy of the document shifted by `offset` and selects the new nodes. */
+    private pasteDocument(doc: CircuitDocument, offset: number) {
+        const nodes = Clipboard.paste(doc, () => crypto.randomUUID(), offset, offset);
+        this.history.execute(new AddNodesCommand(this.circuit, nodes));
+        this.selectedNodes = new Set(nodes);
+        this.refreshView();
+    }
+
+    /** Nodes drawn at the current level. */
+    private visibleNodes(): CircuitNode[] {
+        return Array.from(this.circuit.nodes.values()).filter(n => n.parent === this.viewRoot);
+    }
+
+    private isWireVisible(wire: Connection): boolean {
+        return this.outputAnchor(wire.from) !== null && this.inputAnchor(wire.to, wire.toPort) !== null;
+    }
+
+    /** Screen position in canvas (pan layer) coordinates, at the current pan and zoom. */
+    private toCanvasPoint(e: { clientX: number, clientY: number }): { x: number, y: number } {
+        const rect = this.container.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left - this.panOffset.x) / this.zoom,
+            y: (e.clientY - rect.top - this.panOffset.y) / this.zoom
+        };
+    }
+
+    // --- Persistence ---
+
+    /** Autosaves shortly after the last change, so bursts of edits serialize the circuit once. */
+    private saveSession() {
+        if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+        this.saveTimer = window.setTimeout(() => this.flushSession(), 300);
+    }
+
+    private flushSession() {
+        if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        try {
+            localStorage.setItem(CanvasManager.AUTOSAVE_KEY, JSON.stringify(this.circuit));
+        } catch (e) {
+            // Storage may be full or disabled (private mode); autosave is best-effort
+            console.warn('Autosave failed', e);
+        }
+    }
+
+    private restoreSession() {
+        const saved = localStorage.getItem(CanvasManager.AUTOSAVE_KEY);
+        if (!saved) return;
+
+        // A session that no longer loads stays stored until the next autosave replaces it,
+        // so it can still be recovered by hand
+        try {
+            const doc = parseCircuitDocument(JSON.parse(saved));
+            this.loadCircuit(Circuit.fromJSON(doc), false);
+            this.reportNotices(doc);
+        } catch (e) {
+            console.warn('Could not restore the previous session', e);
+        }
+    }
+
+    private downloadCircuit() {
+        const doc = { ...this.circuit.toJSON(), components: this.library.usedBy(this.circuit) };
+        this.download(JSON.stringify(doc, null, 2), 'circuit.json', 'application/json');
+    }
+
+    private downloadVerilog() {
+        this.download(VerilogExporter.export(this.circuit), 'circuit.v', 'text/plain');
+    }
+
+    /**
+     * Dumps the watched signals of the running timing simulation, or the truth-table
+     * sweep when nothing has been recorded.
+     */
+    private downloadVcd() {
+        const traces = this.timing ? Array.from(this.timing.getTraces()) : [];
+        let vcd: string;
+        if (this.timing && traces.length > 0) {
+            vcd = VcdWriter.write(traces.map(([node, samples]) => ({ name: DesignRuleChecker.describe(node), samples })), this.timing.time);
+        } else {
+            const table = this.buildTruthTable();
+            if (!table) return;
+            if (table.inputs.length > ModalManager.MAX_EXPORT_INPUTS) {
+                const statusEl = document.getElementById('status-msg');
+                if (statusEl) statusEl.innerText = `Export is limited to ${ModalManager.MAX_EXPORT_INPUTS} inputs; record signals in timing mode instead.`;
+                return;
+            }
+            vcd = VcdWriter.fromTruthTable(table);
+        }
+        this.download(vcd, 'circuit.vcd', 'text/plain');
+    }
+
+    /** The circuit's truth table, or null (with the reason in the status bar) when it cannot have one. */
+    private buildTruthTable(): TruthTable | null {
+        try {
+            return new TruthTable(this.circuit);
+        } catch (e) {
+            if (!(e instanceof CycleDetectedError) && !(e instanceof TruthTableSizeError)) throw e;
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = e instanceof TruthTableSizeError ? e.message
+                : 'The circuit has a feedback loop; switch to event-driven mode to tabulate it.';
+            return null;
+        }
+    }
+
+    private showTruthTable() {
+        const table = this.buildTruthTable();
+        if (!table) return;
+        const inputs = table.inputs.length;
+        const mappable = inputs >= KarnaughMap.MIN_VARIABLES && inputs <= KarnaughMap.MAX_VARIABLES && table.outputs.length > 0;
+        this.modalManager.open(ModalManager.generateTruthTableUI(table, format => {
+            if (format === 'csv') this.download(table.toCSV(), 'truth-table.csv', 'text/csv');
+            else this.download(table.toMarkdown(), 'truth-table.md', 'text/markdown');
+        }, mappable ? () => this.openSynthesis({ inputNames: table.inputLabels, outputs: table.functions() }) : undefined));
+    }
+
+    /** Synthesis editor, optionally filled in from an existing specification; building replaces the circuit. */
+    private openSynthesis(initial?: { inputNames: string[], outputs: OutputFunction[] }) {
+        const ui = ModalManager.generateSynthesisUI((count, outputs, options) => {
+            const newCircuit = SynthesisEngine.generateCircuit(count, outputs, options);
+            if (this.circuit.nodes.size > 0) this.metricsBaseline = { report: CircuitMetrics.measure(this.circuit), title: 'Before synthesis' };
+            this.loadCircuit(newCircuit);
+            this.fitToView();
+            this.modalManager.close();
+        }, initial);
+        this.modalManager.open(ui);
+    }
+
+    private download(text: string, filename: string, type: string) {
+        const blob = new Blob([text], { type });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+        URL.revokeObjectURL(url);
+    }
+
+    private async readCircuitFile(file: File): Promise<CircuitDocument> {
+        let data: unknown;
+        try {
+            data = JSON.parse(await file.text());
+        } catch (e) {
+            throw new CircuitFormatError(`not valid JSON (${(e as Error).message}).`);
+        }
+        const doc = parseCircuitDocument(data);
+
+        // Make embedded component definitions available in the palette
+        doc.components?.forEach(def => {
+            if (!this.library.has(def.name)) this.library.add(def);
+        });
+        this.saveLibrary();
+        this.renderComponentPalette();
+        return doc;
+    }
+
+    private async openCircuitFile(file: File) {
+        try {
+            const doc = await this.readCircuitFile(file);
+            this.loadCircuit(Circuit.fromJSON(doc));
+            this.reportNotices(doc);
+        } catch (e) {
+            this.reportFileError(e);
+        }
+    }
+
+    /** Tells the user what migrating an older file changed. */
+    private reportNotices(doc: CircuitDocument) {
+        if (!doc.notices) return;
+        doc.notices.forEach(notice => console.warn(notice));
+        const statusEl = document.getElementById('status-msg');
+        if (statusEl) statusEl.innerText = doc.notices.length === 1 ? doc.notices[0] : `${doc.notices[0]} (and ${doc.notices.length - 1} more changes, see the console)`;
+    }
+
+    /** Opens a gate-level Verilog (.v) or BLIF (.blif) netlist, placed by the layout engine. */
+    private async importNetlist(file: File) {
+        try {
+            const source = await file.text();
+            const circuit = /\.blif$/i.test(file.name) ? BlifImporter.toCircuit(source) : VerilogImporter.toCircuit(source);
+            this.loadCircuit(circuit);
+            this.fitToView();
+        } catch (e) {
+            this.reportFileError(e, file.name);
+        }
+    }
+
+    /**
+     * Proves the canvas circuit equivalent to a saved circuit or netlist, or shows
+     * inputs on which they differ.
+     */
+    private async compareWithFile(file: File) {
+        try {
+            const source = await file.text();
+            const other = /\.blif$/i.test(file.name) ? BlifImporter.toCircuit(source)
+                : /\.v$/i.test(file.name) ? VerilogImporter.toCircuit(source)
+                : Circuit.fromJSON(source);
+            const result = EquivalenceChecker.check(this.circuit, other);
+            this.modalManager.open(ModalManager.generateEquivalenceUI(result, file.name, (inputs) => {
+                this.applyInputs(inputs);
+                this.modalManager.close();
+            }));
+        } catch (e) {
+            const statusEl = document.getElementById('status-msg');
+            if (e instanceof EquivalenceError || e instanceof BddLimitError) {
+                if (statusEl) statusEl.innerText = e.message;
+            } else if (e instanceof CycleDetectedError) {
+                if (statusEl) statusEl.innerText = 'Equivalence checking needs combinational circuits; one of them has a feedback loop.';
+            } else {
+                this.reportFileError(e, file.name);
+            }
+        }
+    }
+
+    /** Sets the top-level switches with the given labels. */
+    private applyInputs(values: Record<string, boolean>) {
+        const changed = Util.getNodesByType<InputNode>(this.circuit, 'INPUT').filter(n => n.label in values);
+        changed.forEach(n => n.setValue(values[n.label]));
+        this.updateSimulation(changed);
+    }
+
+    private openFaultAnalysis() {
+        let simulator: FaultSimulator;
+        try {
+            simulator = new FaultSimulator(this.circuit);
+        } catch (e) {
+            if (!(e instanceof CycleDetectedError)) throw e;
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = 'Fault analysis needs a combinational circuit; this one has a feedback loop.';
+            return;
+        }
+        this.modalManager.open(ModalManager.generateFaultUI(simulator, faults => this.markFaults(faults), inputs => this.applyInputs(inputs)));
+    }
+
+    /** Badges the nodes of the given faults (or the instances containing them) and brings the first into view. */
+    private markFaults(faults: Fault[]) {
+        this.faultMarks = faults;
+        this.refreshView();
+
+        let first: CircuitNode | null = faults[0]?.node ?? null;
+        while (first && first.parent !== this.viewRoot) first = first.parent;
+        if (first) {
+            const size = LayoutEngine.nodeSize(first);
+            this.centerOn(first.x + size.width / 2, first.y + size.height / 2);
+        }
+    }
+
+    /** Packages a whole saved circuit file as a custom component. */
+    private async openComponentFile(file: File) {
+        try {
+            const doc = await this.readCircuitFile(file);
+            const name = window.prompt('Component name:', file.name.replace(/\.json$/i, ''));
+            if (name === null) return;
+            this.addComponentDefinition(ComponentLibrary.createDefinition(name, Circuit.fromJSON(doc)));
+        } catch (e) {
+            this.reportFileError(e);
+        }
+    }
+
+    private reportFileError(e: unknown, fileName?: string) {
+        const statusEl = document.getElementById('status-msg');
+        if (e instanceof NetlistParseError) {
+            if (statusEl) statusEl.innerText = `${fileName ?? 'Netlist'}: ${e.message}`;
+        } else if (e instanceof CircuitFormatError || e instanceof ComponentError) {
+            if (statusEl) statusEl.innerText = e.message;
+        } else {
+            console.error(e);
+        }
+    }
+
+    // --- Custom Components ---
+
+    private saveLibrary() {
+        try {
+            localStorage.setItem(CanvasManager.LIBRARY_KEY, JSON.stringify(this.library.list()));
+        } catch (e) {
+            console.warn('Saving the component library failed', e);
+        }
+    }
+
+    private restoreLibrary() {
+        const saved = localStorage.getItem(CanvasManager.LIBRARY_KEY);
+        if (saved) {
+            try {
+                const defs = JSON.parse(saved) as ComponentDocument[];
+                defs.forEach(def => {
+                    this.library.add({ name: def.name, circuit: parseCircuitDocument(def.circuit) });
+                });
+            } catch (e) {
+                console.warn('Could not restore the component library', e);
+            }
+        }
+        this.renderComponentPalette();
+    }
+
+    private addComponentDefinition(def: ComponentDocument) {
+        if (this.library.has(def.name) && !window.confirm(`Replace the existing component "${def.name}"?`)) return;
+        this.library.add(def);
+        this.saveLibrary();
+        this.renderComponentPalette();
+    }
+
+    /** "Create Component" packages the selected nodes, or the whole top-level circuit. */
+    private createComponentFromCanvas() {
+        const name = window.prompt('Component name:');
+        if (name === null) return;
+        const selected = this.viewRoot ? [] : Array.from(this.selectedNodes);
+        try {
+            this.addComponentDefinition(ComponentLibrary.createDefinition(name, this.circuit, selected.length > 0 ? selected : undefined));
+        } catch (e) {
+            this.reportFileError(e);
+        }
+    }
+
+    private renderComponentPalette() {
+        const list = document.getElementById('custom-components');
+        if (!list) return;
+        list.innerHTML = '';
+
+        this.library.list().forEach(def => {
+            const item = document.createElement('div');
+            item.className = 'component-item';
+            item.draggable = true;
+            item.dataset.type = 'COMPONENT';
+            item.innerText = def.name;
+            item.addEventListener('dragstart', (e) => {
+                e.dataTransfer?.setData('type', 'COMPONENT');
+                e.dataTransfer?.setData('component', def.name);
+            });
+            list.appendChild(item);
+        });
+    }
+
+    private stepInto(instance: ComponentNode | null) {
+        this.viewRoot = instance;
+        this.refreshView();
+    }
+
+    private renderBreadcrumb() {
+        const crumbs = document.getElementById('breadcrumb');
+        if (!crumbs) return;
+        crumbs.innerHTML = '';
+        crumbs.style.display = this.viewRoot ? 'flex' : 'none';
+        if (!this.viewRoot) return;
+
+        const path: (ComponentNode | null)[] = [];
+        for (let n: ComponentNode | null = this.viewRoot; n; n = n.parent) path.unshift(n);
+        path.unshift(null);
+
+        path.forEach((level, i) => {
+            const crumb = document.createElement('button');
+            crumb.innerText = level ? level.label : 'Top';
+            crumb.disabled = i === path.length - 1;
+            crumb.addEventListener('click', () => this.stepInto(level));
+            crumbs.appendChild(crumb);
+        });
+    }
+
     // --- Sidebar & Create ---
 
     private setupSidebarEvents() {
@@ -117,6 +865,16 @@ export class CanvasManager {
 
         this.container.addEventListener('dragover', (e) => e.preventDefault());
         this.container.addEventListener('drop', (e) => this.handleDrop(e));
+
+        document.getElementById('btn-create-component')?.addEventListener('click', () => this.createComponentFromCanvas());
+
+        const componentFile = document.getElementById('file-component') as HTMLInputElement | null;
+        document.getElementById('btn-component-file')?.addEventListener('click', () => componentFile?.click());
+        componentFile?.addEventListener('change', () => {
+            const file = componentFile.files?.[0];
+            if (file) this.openComponentFile(file);
+            componentFile.value = '';
+        });
     }
 
     private handleDrop(e: DragEvent) {
@@ -124,35 +882,43 @@ export class CanvasManager {
         const type = e.dataTransfer?.getData('type') as NodeType;
         if (!type) return;
 
-        const rect = this.container.getBoundingClientRect();
-        const x = e.clientX - rect.left - this.panOffset.x;
-        const y = e.clientY - rect.top - this.panOffset.y;
+        if (this.viewRoot) {
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = "Component internals are read-only. Go back to the top level to edit.";
+            return;
+        }
 
-        this.createNode(type, x, y);
+        const { x, y } = this.toCanvasPoint(e);
+        this.createNode(type, x, y, e.dataTransfer?.getData('component'));
     }
 
-    private createNode(type: NodeType, x: number, y: number) {
+    private createNode(type: NodeType, x: number, y: number, componentName?: string) {
         const id = crypto.randomUUID();
-        let node: CircuitNode;
-
-        switch (type) {
-            case 'AND': node = new AndGate(id, x, y); break;
-            case 'OR': node = new OrGate(id, x, y); break;
-            case 'NOT': node = new NotGate(id, x, y); break;
-
-            case 'INPUT': {
-                // Determine label based on count
-                const inputs = Array.from(this.circuit.nodes.values()).filter(n => n.type === 'INPUT');
-                const label = String.fromCharCode(65 + inputs.length); // A, B, C...
-                node = new InputNode(id, x, y, label);
-                break;
-            }
-            case 'OUTPUT': node = new OutputNode(id, x, y); break;
-            default: return;
+        let node: CircuitNode | null;
+
+        if (type === 'COMPONENT') {
+            const def = componentName ? this.library.get(componentName) : undefined;
+            if (!def) return;
+            node = ComponentLibrary.instantiate(def, id, x, y);
+        } else {
+            node = Util.createNode(type, id, x, y);
+        }
+        if (!node) return;
+
+        if (MULTI_INPUT_TYPES.includes(node.type)) {
+            const fanIn = document.getElementById('gate-fan-in') as HTMLSelectElement | null;
+            if (fanIn) node.inputCount = parseInt(fanIn.value);
+        }
+
+        if (node.type === 'INPUT') {
+            // Determine label based on count
+            const inputs = Util.getNodesByType(this.circuit, 'INPUT');
+            node.label = String.fromCharCode(65 + inputs.length); // A, B, C...
         }
 
-        this.circuit.addNode(node);
+        this.history.execute(new AddNodeCommand(this.circuit, node));
         this.renderNode(node);
+        this.saveSession();
     }
 
     private renderNode(node: CircuitNode) {
@@ -162,64 +928,236 @@ export class CanvasManager {
         el.dataset.type = node.type;
         el.style.left = `${node.x}px`;
         el.style.top = `${node.y}px`;
+        if (this.selectedNodes.has(node)) el.classList.add('selected');
+        if (this.criticalNodes.has(node)) el.classList.add('critical');
+        if (node.value) el.classList.add('on');
+        this.showLevel(el, node.level);
 
         const label = document.createElement('span');
         label.className = 'label';
-        // Show specified label for Inputs, otherwise just type
-        label.innerText = node.type === 'INPUT' ? node.label : node.type;
+        // Show specified label for I/O, constants and components, otherwise just type
+        label.innerText = ['INPUT', 'CLOCK', 'OUTPUT', 'PIN', 'COMPONENT', 'CONST0', 'CONST1'].includes(node.type) ? node.label : node.type;
         el.appendChild(label);
 
-        if (node.type !== 'INPUT') {
-            const inputPin = document.createElement('div');
-            inputPin.className = 'pin input';
-            (inputPin as any).nodeId = node.id;
-            inputPin.addEventListener('mouseup', (e) => this.handleWireEnd(e, node));
-            el.appendChild(inputPin);
+        const stuck = this.faultMarks
+            .filter(f => f.node === node || (node instanceof ComponentNode && node.descendants().includes(f.node)))
+            .map(f => f.stuckAt ? 1 : 0);
+        if (stuck.length > 0) {
+            const badge = document.createElement('span');
+            badge.className = 'fault-badge';
+            badge.innerText = `SA${Array.from(new Set(stuck)).sort().join('/')}`;
+            el.classList.add('faulted');
+            el.appendChild(badge);
         }
 
-        if (node.type !== 'OUTPUT') {
-            const outputPin = document.createElement('div');
-            outputPin.className = 'pin output';
-            (outputPin as any).nodeId = node.id;
-            outputPin.addEventListener('mousedown', (e) => this.handleWireStart(e, node));
-            el.appendChild(outputPin);
+        if (node instanceof ComponentNode) {
+            this.renderComponentPins(node, el);
+            el.addEventListener('dblclick', () => this.stepInto(node));
+        } else {
+            const size = LayoutEngine.nodeSize(node);
+            el.style.height = `${size.height}px`;
+
+            // Inside an instance, its pins act as the sources/sinks of the inner circuit
+            const isSource = node instanceof InputNode || (node.type === 'PIN' && node.parent?.inputPins.includes(node));
+            const isSink = node.type === 'OUTPUT' || (node.type === 'PIN' && node.parent?.outputPins.includes(node));
+
+            if (!isSource) {
+                node.inputPorts.forEach((name, port) => {
+                    const inputPin = document.createElement('div');
+                    inputPin.className = 'pin input';
+                    inputPin.title = name;
+                    inputPin.style.top = `${CanvasManager.pinOffset(port, node.inputCount, size.height) - 6}px`;
+                    (inputPin as any).nodeId = node.id;
+                    inputPin.addEventListener('mouseup', (e) => this.handleWireEnd(e, node, port));
+                    el.appendChild(inputPin);
+                });
+            }
+
+            if (!isSink) {
+                const outputPin = document.createElement('div');
+                outputPin.className = 'pin output';
+                outputPin.style.top = `${size.height / 2 - 6}px`;
+                (outputPin as any).nodeId = node.id;
+                outputPin.addEventListener('mousedown', (e) => this.handleWireStart(e, node));
+                el.appendChild(outputPin);
+            }
         }
 
         el.addEventListener('mousedown', (e) => {
             if ((e.target as HTMLElement).classList.contains('pin')) return;
-            this.startDragNode(e, node, el);
+            if (e.shiftKey || !this.selectedNodes.has(node)) this.toggleSelection(e, node, null);
+            if (this.selectedNodes.has(node)) this.startDragNode(e, node);
         });
 
-        if (node.type === 'INPUT') {
+        if (MULTI_INPUT_TYPES.includes(node.type)) {
+            el.addEventListener('contextmenu', (e) => {
+                e.preventDefault();
+                this.changeInputCount(node);
+            });
+        }
+
+        if (node instanceof ClockNode) {
+            el.addEventListener('contextmenu', (e) => {
+                e.preventDefault();
+                this.changeClockPeriod(node);
+            });
+        }
+
+        if (node instanceof InputNode) {
             el.addEventListener('click', () => {
                 if (this.draggedNodeId) return;
+                // A running clock is driven by the timing simulation
+                if (node instanceof ClockNode && this.timing) return;
                 const val = !node.value;
-                (node as InputNode).setValue(val);
-                this.updateSimulation();
+                node.setValue(val);
+                this.updateSimulation([node]);
             });
         }
 
         this.panLayer?.appendChild(el);
+        this.nodeElements.set(node, el);
+    }
+
+    /** Asks for a new fan-in; inputs that already carry a wire cannot be removed. */
+    private changeInputCount(node: CircuitNode) {
+        if (this.viewRoot) return; // Component internals are read-only
+        const answer = prompt(`Number of inputs (${MIN_FAN_IN}-${node.maxFanIn}):`, String(node.inputCount));
+        if (answer === null) return;
+
+        const count = parseInt(answer);
+        const statusEl = document.getElementById('status-msg');
+        if (isNaN(count) || count < MIN_FAN_IN || count > node.maxFanIn) {
+            if (statusEl) statusEl.innerText = `A ${node.type} gate takes ${MIN_FAN_IN} to ${node.maxFanIn} inputs.`;
+            return;
+        }
+        const lastUsed = Math.max(-1, ...node.incoming.map(c => c.toPort));
+        if (count <= lastUsed) {
+            if (statusEl) statusEl.innerText = `Input "${node.inputPorts[lastUsed]}" of this gate is connected; remove its wire before reducing the inputs.`;
+            return;
+        }
+        if (count === node.inputCount) return;
+
+        this.history.execute(new SetInputCountCommand(node, count));
+        this.refreshView();
+    }
+
+    private changeClockPeriod(node: ClockNode) {
+        if (this.viewRoot) return;
+        const answer = prompt(`Clock period (at least ${ClockNode.MIN_PERIOD} time units):`, String(node.period));
+        if (answer === null) return;
+
+        const period = parseInt(answer);
+        if (isNaN(period) || period < ClockNode.MIN_PERIOD) {
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = `A clock period must be a whole number of at least ${ClockNode.MIN_PERIOD}.`;
+            return;
+        }
+        if (period === node.period) return;
+        this.history.execute(new SetClockPeriodCommand(node, period));
+        this.saveSession();
     }
 
-    private startDragNode(e: MouseEvent, node: CircuitNode, el: HTMLElement) {
+    /** One pin per inner INPUT/OUTPUT; wires attach directly to the inner pin nodes. */
+    private renderComponentPins(node: ComponentNode, el: HTMLElement) {
+        const size = LayoutEngine.nodeSize(node);
+        el.style.width = `${size.width}px`;
+        el.style.height = `${size.height}px`;
+
+        node.inputPins.forEach((pin, i) => {
+            const pinEl = document.createElement('div');
+            pinEl.className = 'pin input';
+            pinEl.title = pin.label;
+            pinEl.style.top = `${CanvasManager.pinOffset(i, node.inputPins.length, size.height) - 6}px`;
+            pinEl.addEventListener('mouseup', (e) => this.handleWireEnd(e, pin, 0));
+            el.appendChild(pinEl);
+        });
+
+        node.outputPins.forEach((pin, i) => {
+            const pinEl = document.createElement('div');
+            pinEl.className = 'pin output';
+            pinEl.title = pin.label;
+            pinEl.style.top = `${CanvasManager.pinOffset(i, node.outputPins.length, size.height) - 6}px`;
+            pinEl.addEventListener('mousedown', (e) => this.handleWireStart(e, pin));
+            el.appendChild(pinEl);
+        });
+    }
+
+    private static pinOffset(index: number, count: number, height: number): number {
+        return (index + 1) * height / (count + 1);
+    }
+
+    /** Where a wire leaving `node` starts in the current view, or null if it is not visible. */
+    private outputAnchor(node: CircuitNode): { x: number, y: number } | null {
+        if (node.parent === this.viewRoot) {
+            const size = LayoutEngine.nodeSize(node);
+            return { x: node.x + size.width, y: node.y + size.height / 2 };
+        }
+        const owner = node.parent;
+        if (owner && owner.parent === this.viewRoot) {
+            const index = owner.outputPins.indexOf(node);
+            if (index === -1) return null;
+            const size = LayoutEngine.nodeSize(owner);
+            return { x: owner.x + size.width, y: owner.y + CanvasManager.pinOffset(index, owner.outputPins.length, size.height) };
+        }
+        return null;
+    }
+
+    /** Where a wire entering input `pin` of `node` ends in the current view, or null if it is not visible. */
+    private inputAnchor(node: CircuitNode, pin: number): { x: number, y: number } | null {
+        if (node.parent === this.viewRoot) {
+            const size = LayoutEngine.nodeSize(node);
+            const count = Math.max(node.inputCount, 1);
+            return { x: node.x, y: node.y + CanvasManager.pinOffset(Math.min(pin, count - 1), count, size.height) };
+        }
+        const owner = node.parent;
+        if (owner && owner.parent === this.viewRoot) {
+            const index = owner.inputPins.indexOf(node);
+            if (index === -1) return null;
+            const size = LayoutEngine.nodeSize(owner);
+            return { x: owner.x, y: owner.y + CanvasManager.pinOffset(index, owner.inputPins.length, size.height) };
+        }
+        return null;
+    }
+
+    /** Drags the selection (which includes `node`) as one group. */
+    private startDragNode(e: MouseEvent, node: CircuitNode) {
         this.draggedNodeId = node.id;
         this.initialMousePos = { x: e.clientX, y: e.clientY };
-        this.initialNodePos = { x: node.x, y: node.y };
+        const starts = Array.from(this.selectedNodes).map(n => ({ node: n, x: n.x, y: n.y }));
+        // All moves of this drag collapse into one undo step
+        const gesture = {};
 
         const onMove = (em: MouseEvent) => {
-            const dx = em.clientX - this.initialMousePos.x;
-            const dy = em.clientY - this.initialMousePos.y;
-
-            node.x = this.initialNodePos.x + dx;
-            node.y = this.initialNodePos.y + dy;
-            el.style.left = `${node.x}px`;
-            el.style.top = `${node.y}px`;
-            this.redrawWires();
+            const dx = (em.clientX - this.initialMousePos.x) / this.zoom;
+            const dy = (em.clientY - this.initialMousePos.y) / this.zoom;
+
+            const moves = starts.map(s => ({
+                node: s.node,
+                from: { x: s.node.x, y: s.node.y },
+                to: { x: s.x + dx, y: s.y + dy }
+            }));
+            const move = new MoveNodesCommand(moves, gesture);
+            move.execute();
+            this.history.record(move);
+
+            starts.forEach(({ node: n }) => {
+                const el = this.nodeElements.get(n);
+                if (!el) return;
+                el.style.left = `${n.x}px`;
+                el.style.top = `${n.y}px`;
+            });
+            this.updateWireGeometry(starts.map(s => s.node));
         };
 
         const onUp = () => {
             this.draggedNodeId = null;
+            // Routed wires elsewhere may now run through the moved nodes
+            if (this.wireStyle === 'manhattan') this.redrawWires();
+            else {
+                this.resizeSvg();
+                this.renderMinimap();
+            }
+            this.saveSession();
             window.removeEventListener('mousemove', onMove);
             window.removeEventListener('mouseup', onUp);
         };
@@ -233,6 +1171,7 @@ export class CanvasManager {
     private handleWireStart(e: MouseEvent, node: CircuitNode) {
         e.stopPropagation();
         e.preventDefault();
+        if (this.viewRoot) return; // Component internals are read-only
         this.isDrawingWire = true;
         this.wireStartNode = node;
 
@@ -262,110 +1201,550 @@ export class CanvasManager {
     private updateTempWire(e: MouseEvent) {
         if (!this.tempWire || !this.wireStartNode) return;
 
-        const rect = this.container.getBoundingClientRect();
-        const startX = this.wireStartNode.x + 60;
-        const startY = this.wireStartNode.y + 20;
-        const mouseX = e.clientX - rect.left - this.panOffset.x;
-        const mouseY = e.clientY - rect.top - this.panOffset.y;
+        const start = this.outputAnchor(this.wireStartNode);
+        if (!start) return;
+        const startX = start.x;
+        const startY = start.y;
+        const { x: mouseX, y: mouseY } = this.toCanvasPoint(e);
 
-        const d = this.calculateBezier(startX, startY, mouseX, mouseY);
+        const d = this.calculateBezier([{ x: startX, y: startY }, { x: mouseX, y: mouseY }]);
         this.tempWire.setAttribute('d', d);
     }
 
-    private handleWireEnd(e: MouseEvent, targetNode: CircuitNode) {
+    private handleWireEnd(e: MouseEvent, targetNode: CircuitNode, port: number) {
         e.stopPropagation();
         if (this.isDrawingWire && this.wireStartNode && this.wireStartNode !== targetNode) {
-            this.circuit.addConnection(this.wireStartNode.id, targetNode.id);
-            this.redrawWires();
+            try {
+                this.history.execute(new ConnectCommand(this.circuit, this.wireStartNode.id, targetNode.id, port));
+            } catch (err) {
+                if (!(err instanceof ConnectionError)) throw err;
+                const statusEl = document.getElementById('status-msg');
+                if (statusEl) statusEl.innerText = err.message;
+                return;
+            }
+            const wire = targetNode.inputAt(port);
+            if (wire) this.drawConnection(wire);
+            this.drawJunctions();
             this.updateSimulation();
         }
     }
 
-    private calculateBezier(x1: number, y1: number, x2: number, y2: number): string {
-        const cx1 = x1 + 50;
-        const cx2 = x2 - 50;
-        return `M ${x1} ${y1} C ${cx1} ${y1}, ${cx2} ${y2}, ${x2} ${y2}`;
+    /** Chain of S-curves leaving each point to the right and entering the next from the left. */
+    private calculateBezier(points: Point[]): string {
+        const curves = points.slice(1).map((p, i) => {
+            const q = points[i];
+            return `C ${q.x + 50} ${q.y}, ${p.x - 50} ${p.y}, ${p.x} ${p.y}`;
+        });
+        return `M ${points[0].x} ${points[0].y} ${curves.join(' ')}`;
+    }
+
+    /** Switches between curved and routed wires and remembers the choice. */
+    private setWireStyle(style: WireStyle) {
+        this.wireStyle = style;
+        localStorage.setItem(CanvasManager.WIRE_STYLE_KEY, style);
+        this.redrawWires();
     }
 
+    /** Rebuilds every wire path; only needed after structural changes. */
     private redrawWires() {
-        const wires = this.svgLayer.querySelectorAll('.wire:not(.wire-preview)');
-        wires.forEach(w => w.remove());
+        this.wireElements.forEach(path => path.remove());
+        this.wireElements.clear();
+        this.wireRoutes.clear();
+        this.resizeSvg();
+        this.renderMinimap();
 
+        const obstacles = this.nodeRects();
         this.circuit.nodes.forEach(node => {
-            node.inputs.forEach(inputNode => {
-                this.drawConnection(inputNode, node);
+            node.incoming.forEach(wire => this.drawConnection(wire, obstacles));
+        });
+        this.drawJunctions();
+    }
+
+    /** Re-routes the wires attached to moved nodes (or to the pins of moved instances). */
+    private updateWireGeometry(moved: CircuitNode[]) {
+        const attached = new Set<Connection>();
+        moved.forEach(node => {
+            const ends = node instanceof ComponentNode ? [...node.inputPins, ...node.outputPins] : [node];
+            ends.forEach(n => {
+                n.incoming.forEach(w => attached.add(w));
+                n.outgoing.forEach(w => attached.add(w));
             });
         });
+        this.updateWires(attached);
     }
 
-    private drawConnection(from: CircuitNode, to: CircuitNode) {
-        const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    private updateWires(wires: Iterable<Connection>) {
+        const obstacles = this.nodeRects();
+        for (const wire of wires) {
+            const d = this.wirePath(wire, obstacles);
+            if (d) this.wireElements.get(wire)?.setAttribute('d', d);
+        }
+        this.drawJunctions();
+    }
 
-        const startX = from.x + (from.type === 'OUTPUT' ? 40 : 60);
-        const startY = from.y + 20;
-        const endX = to.x;
-        const endY = to.y + 20;
+    /**
+     * SVG path of a wire in the current view, or null if either end is hidden.
+     * @param obstacles Node boxes routed wires go around; pass them when drawing many wires
+     */
+    private wirePath(wire: Connection, obstacles?: Rect[]): string | null {
+        const start = this.outputAnchor(wire.from);
+        const end = this.inputAnchor(wire.to, wire.toPort);
+        if (!start || !end) return null;
+        const bends = wire.bends ?? [];
+        if (this.wireStyle === 'curved') return this.calculateBezier([start, ...bends, end]);
+
+        const route = WireRouter.route(start, end, obstacles ?? this.nodeRects(), bends);
+        this.wireRoutes.set(wire, route);
+        return WireRouter.toPath(route);
+    }
+
+    private drawConnection(wire: Connection, obstacles?: Rect[]) {
+        const from = wire.from;
+        const d = this.wirePath(wire, obstacles);
+        if (!d) return;
 
-        const d = this.calculateBezier(startX, startY, endX, endY);
+        const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
         path.setAttribute('d', d);
 
         const isActive = from.value;
         path.setAttribute('class', `wire ${isActive ? 'active' : ''}`);
+        if (this.selectedWires.has(wire)) path.classList.add('selected');
+        if (this.criticalWires.has(wire)) path.classList.add('critical');
+        this.showLevel(path, from.level);
+        path.addEventListener('mousedown', (e) => {
+            e.stopPropagation();
+            if (this.viewRoot || e.shiftKey) this.toggleSelection(e, null, wire);
+            else this.startBendDrag(e, wire);
+        });
+        path.addEventListener('dblclick', (e) => {
+            e.stopPropagation();
+            this.clearBends(wire);
+        });
 
         this.svgLayer.appendChild(path);
+        this.wireElements.set(wire, path);
+    }
+
+    /** Dots where routed wires leaving the same output split up. */
+    private drawJunctions() {
+        this.junctionElements.forEach(dots => dots.forEach(dot => dot.remove()));
+        this.junctionElements.clear();
+        if (this.wireStyle !== 'manhattan') return;
+
+        const bySource = new Map<CircuitNode, Point[][]>();
+        this.wireRoutes.forEach((route, wire) => {
+            if (!bySource.has(wire.from)) bySource.set(wire.from, []);
+            bySource.get(wire.from)!.push(route);
+        });
+        bySource.forEach((routes, source) => {
+            if (routes.length < 2) return;
+            const dots = WireRouter.junctions(routes).map(p => {
+                const dot = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+                dot.setAttribute('cx', String(p.x));
+                dot.setAttribute('cy', String(p.y));
+                dot.setAttribute('r', '4');
+                dot.setAttribute('class', `junction ${source.value ? 'active' : ''}`);
+                this.showLevel(dot, source.level);
+                this.svgLayer.appendChild(dot);
+                return dot;
+            });
+            this.junctionElements.set(source, dots);
+        });
+    }
+
+    /**
+     * Dragging a wire moves the bend point under the cursor, or adds one on the
+     * grabbed segment. A click without movement selects the wire instead.
+     */
+    private startBendDrag(e: MouseEvent, wire: Connection) {
+        const before = (wire.bends ?? []).map(b => ({ ...b }));
+        const grab = this.toCanvasPoint(e);
+        let index: number | null = null;
+
+        const onMove = (em: MouseEvent) => {
+            if (index === null) {
+                if (Math.hypot(em.clientX - e.clientX, em.clientY - e.clientY) < 4) return;
+                const bends = before.map(b => ({ ...b }));
+                index = bends.findIndex(b => Math.hypot(b.x - grab.x, b.y - grab.y) <= 8);
+                if (index === -1) {
+                    index = this.segmentAt(wire, grab);
+                    bends.splice(index, 0, grab);
+                }
+                wire.bends = bends;
+            }
+            // Bends snap to half the background grid so routed segments line up
+            const p = this.toCanvasPoint(em);
+            wire.bends![index] = { x: Math.round(p.x / 10) * 10, y: Math.round(p.y / 10) * 10 };
+            this.updateWires([wire]);
+        };
+
+        const onUp = () => {
+            window.removeEventListener('mousemove', onMove);
+            window.removeEventListener('mouseup', onUp);
+            if (index === null) {
+                this.toggleSelection(e, null, wire);
+                return;
+            }
+            this.history.record(new SetBendsCommand(this.circuit, wire, before, wire.bends ?? []));
+            this.resizeSvg();
+            this.saveSession();
+        };
+
+        window.addEventListener('mousemove', onMove);
+        window.addEventListener('mouseup', onUp);
+    }
+
+    /** Index of the stretch of the wire (between its ends and bends) closest to `p`. */
+    private segmentAt(wire: Connection, p: Point): number {
+        const stops = [this.outputAnchor(wire.from)!, ...(wire.bends ?? []), this.inputAnchor(wire.to, wire.toPort)!];
+        const distance = (a: Point, b: Point) => {
+            const length = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+            const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / length));
+            return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
+        };
+        let best = 0;
+        for (let i = 1; i + 1 < stops.length; i++) {
+            if (distance(stops[i], stops[i + 1]) < distance(stops[best], stops[best + 1])) best = i;
+        }
+        return best;
+    }
+
+    /** Double-click: straightens a wire back to its automatic shape. */
+    private clearBends(wire: Connection) {
+        if (this.viewRoot || !wire.bends || wire.bends.length === 0) return;
+        this.history.execute(new SetBendsCommand(this.circuit, wire, wire.bends, []));
+        this.updateWires([wire]);
+        this.resizeSvg();
+        this.saveSession();
     }
 
     // --- Simulation ---
 
-    private updateSimulation() {
+    /**
+     * Re-evaluates and refreshes what changed.
+     * @param changed Switches toggled since the last update; omit after edits to the circuit itself
+     */
+    private updateSimulation(changed?: CircuitNode[]) {
         const statusEl = document.getElementById('status-msg');
         if (statusEl) statusEl.innerText = "";
 
+        this.panLayer?.querySelectorAll('.gate.oscillating').forEach(el => el.classList.remove('oscillating'));
+
+        if (this.timing) {
+            if (changed) {
+                this.timing.inputsChanged(changed);
+            } else {
+                this.checkDesign();
+                this.updateMetrics();
+                this.timing.resync();
+            }
+            this.advanceTiming(timing => timing.advance(timing.time));
+            this.saveSession();
+            return;
+        }
+
+        if (!changed) {
+            this.checkDesign();
+            this.updateMetrics();
+        }
+
         try {
-            this.circuit.evaluate();
-            this.updateUIState();
+            this.updateUIState(this.circuit.evaluate(changed));
         } catch (e) {
             if (e instanceof CycleDetectedError) {
-                if (statusEl) statusEl.innerText = "Error: Feedback Loop Detected!";
+                if (statusEl) statusEl.innerText = "Error: Feedback Loop Detected! Switch to event-driven mode to simulate it.";
+            } else if (e instanceof OscillationError) {
+                if (statusEl) statusEl.innerText = `Error: Oscillation in ${e.nodes.map(n => n.label).join(', ')}`;
+                this.updateUIState();
+                e.nodes.forEach(n => this.nodeElements.get(n)?.classList.add('oscillating'));
             } else {
                 console.error(e);
             }
         }
+
+        this.saveSession();
     }
 
-    private updateUIState() {
-        this.circuit.nodes.forEach(node => {
-            const el = document.querySelector(`.gate[data-id="${node.id}"]`);
-            if (el) {
-                if (node.value) el.classList.add('on');
-                else el.classList.remove('on');
-            }
+    // --- Timing Simulation ---
+
+    private startTiming(): TimingSimulator {
+        if (!this.timing) {
+            this.timing = new TimingSimulator(this.circuit);
+            this.timing.watch(this.watched.filter(n => this.circuit.nodes.get(n.id) === n));
+        }
+        return this.timing;
+    }
+
+    /** Lets simulated time pass at the selected speed (time units per second). */
+    private runTiming() {
+        if (this.timingFrame !== null) return;
+        const timing = this.startTiming();
+        const speedSelect = document.getElementById('sim-speed') as HTMLSelectElement | null;
+        let last = performance.now();
+
+        const frame = (now: number) => {
+            const speed = parseFloat(speedSelect?.value ?? '20');
+            const until = timing.time + speed * Math.min(now - last, 100) / 1000;
+            last = now;
+            if (this.timing !== timing || !this.advanceTiming(t => t.advance(until))) return;
+            this.timingFrame = requestAnimationFrame(frame);
+        };
+        this.timingFrame = requestAnimationFrame(frame);
+        this.updateTimingControls();
+    }
+
+    private pauseTiming() {
+        if (this.timingFrame !== null) cancelAnimationFrame(this.timingFrame);
+        this.timingFrame = null;
+        this.updateTimingControls();
+    }
+
+    private stepTiming() {
+        this.pauseTiming();
+        this.startTiming();
+        this.advanceTiming(timing => timing.step());
+    }
+
+    /** Drops the timing state and returns to zero-delay values. */
+    private resetTiming() {
+        this.pauseTiming();
+        this.timing = null;
+        this.waveform?.clear();
+        this.updateSimulation();
+        this.updateTimingControls();
+    }
+
+    /**
+     * Runs the timing simulator and shows the result.
+     * @returns false when the circuit oscillated (the simulation is then paused)
+     */
+    private advanceTiming(run: (timing: TimingSimulator) => CircuitNode[]): boolean {
+        if (!this.timing) return false;
+        try {
+            this.updateUIState(run(this.timing));
+        } catch (e) {
+            if (!(e instanceof OscillationError)) throw e;
+            this.pauseTiming();
+            const statusEl = document.getElementById('status-msg');
+            if (statusEl) statusEl.innerText = `Error: Oscillation in ${e.nodes.map(n => n.label).join(', ')} at t = ${this.timing.time}`;
+            this.updateUIState();
+            e.nodes.forEach(n => this.nodeElements.get(n)?.classList.add('oscillating'));
+            return false;
+        }
+        this.renderWaveform();
+        this.updateTimingControls();
+        return true;
+    }
+
+    /** Shows the selected nodes (the pins of selected instances) in the waveform panel. */
+    private watchSelection() {
+        this.watched = Array.from(this.selectedNodes)
+            .flatMap(n => n instanceof ComponentNode ? [...n.inputPins, ...n.outputPins] : [n]);
+        this.timing?.watch(this.watched);
+        this.renderWaveform();
+    }
+
+    private renderWaveform() {
+        if (!this.waveform) return;
+        const traces = this.timing ? Array.from(this.timing.getTraces()) : [];
+        this.waveform.render(traces.map(([node, samples]) => ({ label: DesignRuleChecker.describe(node), samples })), this.timing?.time ?? 0);
+    }
+
+    private updateTimingControls() {
+        const running = this.timingFrame !== null;
+        (document.getElementById('btn-sim-run') as HTMLButtonElement | null)?.toggleAttribute('disabled', running);
+        (document.getElementById('btn-sim-pause') as HTMLButtonElement | null)?.toggleAttribute('disabled', !running);
+        const timeEl = document.getElementById('sim-time');
+        if (timeEl) timeEl.innerText = this.timing ? `t = ${Math.round(this.timing.time * 100) / 100}` : 'zero-delay';
+    }
+
+    /** Re-runs the design-rule check into the problems panel. */
+    private checkDesign() {
+        if (!this.issuePanel) return;
+        this.highlightIssue(null);
+        this.issuePanel.render(DesignRuleChecker.check(this.circuit));
+    }
+
+    /** Re-measures the circuit into the metrics panel and refreshes the critical-path highlight. */
+    private updateMetrics() {
+        if (!this.metricsPanel) return;
+        const report = CircuitMetrics.measure(this.circuit);
+        this.metricsPanel.render(report, this.metricsBaseline);
+
+        const path = this.metricsPanel.showPath ? report.criticalPath : [];
+        this.criticalWires = new Set(CircuitMetrics.pathWires(path));
+        // Nodes inside an instance show on the instance
+        this.criticalNodes = new Set();
+        path.forEach(node => {
+            let n: CircuitNode | null = node;
+            while (n && n.parent !== this.viewRoot) n = n.parent;
+            if (n) this.criticalNodes.add(n);
         });
-        this.redrawWires();
+        this.nodeElements.forEach((el, node) => el.classList.toggle('critical', this.criticalNodes.has(node)));
+        this.wireElements.forEach((path, wire) => path.classList.toggle('critical', this.criticalWires.has(wire)));
+    }
+
+    /** Marks the nodes of an issue (or the instances containing them) and brings them into view. */
+    private highlightIssue(issue: DesignIssue | null) {
+        this.nodeElements.forEach(el => el.classList.remove('flagged'));
+        if (!issue) return;
+
+        const shown = new Set<CircuitNode>();
+        issue.nodes.forEach(node => {
+            let n: CircuitNode | null = node;
+            while (n && n.parent !== this.viewRoot) n = n.parent;
+            if (n) shown.add(n);
+        });
+        shown.forEach(n => this.nodeElements.get(n)?.classList.add('flagged'));
+
+        const first = shown.values().next().value;
+        if (first) {
+            const size = LayoutEngine.nodeSize(first);
+            this.centerOn(first.x + size.width / 2, first.y + size.height / 2);
+        }
+    }
+
+    /** Syncs lamp and wire colours of the given nodes (all nodes when omitted). */
+    private updateUIState(nodes: Iterable<CircuitNode> = this.circuit.nodes.values()) {
+        for (const node of nodes) {
+            const el = this.nodeElements.get(node);
+            el?.classList.toggle('on', node.value);
+            this.showLevel(el, node.level);
+            node.outgoing.forEach(wire => {
+                const path = this.wireElements.get(wire);
+                path?.classList.toggle('active', wire.from.value);
+                this.showLevel(path, node.level);
+            });
+            this.junctionElements.get(node)?.forEach(dot => {
+                dot.classList.toggle('active', node.value);
+                this.showLevel(dot, node.level);
+            });
+        }
+    }
+
+    /** Marks unknown ('X') and undriven ('Z') signals; only four-state logic has them. */
+    private showLevel(el: Element | undefined, level: Logic) {
+        if (!el) return;
+        const fourState = this.circuit.logic === 'four-state';
+        el.classList.toggle('level-x', fourState && level === 'X');
+        el.classList.toggle('level-z', fourState && level === 'Z');
     }
 
     private setupEventListeners() {
+        // Simulation Mode
+        const modeSelect = document.getElementById('sim-mode') as HTMLSelectElement | null;
+        if (modeSelect) {
+            modeSelect.value = this.circuit.mode;
+            modeSelect.addEventListener('change', () => {
+                this.history.execute(new SetSimulationModeCommand(this.circuit, modeSelect.value as SimulationMode));
+                this.updateSimulation();
+                this.saveSession();
+            });
+        }
+
+        const logicSelect = document.getElementById('logic-system') as HTMLSelectElement | null;
+        if (logicSelect) {
+            logicSelect.value = this.circuit.logic;
+            logicSelect.addEventListener('change', () => {
+                this.history.execute(new SetLogicSystemCommand(this.circuit, logicSelect.value as LogicSystem));
+                this.updateSimulation();
+                this.saveSession();
+                // Nodes reset to X and settling back to X again are not reported as changed
+                this.updateUIState();
+            });
+        }
+
+        const wireStyleSelect = document.getElementById('wire-style') as HTMLSelectElement | null;
+        if (wireStyleSelect) {
+            wireStyleSelect.value = this.wireStyle;
+            wireStyleSelect.addEventListener('change', () => this.setWireStyle(wireStyleSelect.value as WireStyle));
+        }
+
+        // Timing simulation
+        document.getElementById('btn-sim-run')?.addEventListener('click', () => this.runTiming());
+        document.getElementById('btn-sim-pause')?.addEventListener('click', () => this.pauseTiming());
+        document.getElementById('btn-sim-step')?.addEventListener('click', () => this.stepTiming());
+        document.getElementById('btn-sim-reset')?.addEventListener('click', () => this.resetTiming());
+        this.updateTimingControls();
+
+        document.getElementById('btn-delays')?.addEventListener('click', () => {
+            this.modalManager.open(ModalManager.generateDelaysUI(this.circuit.delays, (delays) => {
+                this.history.execute(new SetDelaysCommand(this.circuit, delays));
+                this.saveSession();
+                this.modalManager.close();
+            }));
+        });
+
+        const waveformPanel = document.getElementById('waveform-panel');
+        document.getElementById('btn-waveforms')?.addEventListener('click', () => {
+            waveformPanel?.classList.toggle('open');
+            this.renderWaveform();
+        });
+        document.getElementById('btn-watch')?.addEventListener('click', () => this.watchSelection());
+
         // Truth Table Button
         const btn = document.getElementById('btn-truth-table');
         if (btn) {
-            btn.addEventListener('click', () => {
-                const table = this.circuit.getTruthTable();
-                const html = ModalManager.generateTruthTableHTML(table);
-                this.modalManager.open(html);
-            });
+            btn.addEventListener('click', () => this.showTruthTable());
         }
 
+        // Save / Open
+        document.getElementById('btn-save')?.addEventListener('click', () => this.downloadCircuit());
+        const netlistInput = document.getElementById('file-netlist') as HTMLInputElement | null;
+        document.getElementById('btn-import-netlist')?.addEventListener('click', () => netlistInput?.click());
+        netlistInput?.addEventListener('change', () => {
+            const file = netlistInput.files?.[0];
+            if (file) this.importNetlist(file);
+            netlistInput.value = '';
+        });
+        const compareInput = document.getElementById('file-compare') as HTMLInputElement | null;
+        document.getElementById('btn-equivalence')?.addEventListener('click', () => compareInput?.click());
+        compareInput?.addEventListener('change', () => {
+            const file = compareInput.files?.[0];
+            if (file) this.compareWithFile(file);
+            compareInput.value = '';
+        });
+        document.getElementById('btn-faults')?.addEventListener('click', () => this.openFaultAnalysis());
+        document.getElementById('btn-export-verilog')?.addEventListener('click', () => this.downloadVerilog());
+        document.getElementById('btn-export-vcd')?.addEventListener('click', () => this.downloadVcd());
+
+        const fileInput = document.getElementById('file-open') as HTMLInputElement | null;
+        document.getElementById('btn-open')?.addEventListener('click', () => fileInput?.click());
+        fileInput?.addEventListener('change', () => {
+            const file = fileInput.files?.[0];
+            if (file) this.openCircuitFile(file);
+            fileInput.value = '';
+        });
+
+        // Expression Button
+        document.getElementById('btn-expression')?.addEventListener('click', () => {
+            let extracted: { name: string, expression: string }[] | string;
+            try {
+                extracted = ExpressionCompiler.fromCircuit(this.circuit);
+            } catch (e) {
+                if (e instanceof ExpressionSizeError) extracted = e.message;
+                else if (e instanceof CycleDetectedError) extracted = 'The current circuit contains a feedback loop and has no closed-form expression.';
+                else throw e;
+            }
+
+            const ui = ModalManager.generateExpressionUI(extracted, (source) => {
+                try {
+                    this.loadCircuit(ExpressionCompiler.toCircuit(parseExpressions(source)));
+                    this.fitToView();
+                } catch (e) {
+                    if (e instanceof ExpressionParseError) return e.message;
+                    throw e;
+                }
+                this.modalManager.close();
+                return null;
+            });
+            this.modalManager.open(ui);
+        });
+
         // Synthesis Button
         const btnSyn = document.getElementById('btn-synthesis');
         if (btnSyn) {
-            btnSyn.addEventListener('click', () => {
-                const ui = ModalManager.generateSynthesisUI((count, targets) => {
-                    const newCircuit = SynthesisEngine.generateCircuit(count, targets);
-                    this.loadCircuit(newCircuit);
-                    this.modalManager.close();
-                });
-                this.modalManager.open(ui);
-            });
+            btnSyn.addEventListener('click', () => this.openSynthesis());
         }
     }
 }
@@ -0,0 +1,43 @@
+import type { DesignIssue } from '../core/drc';
+
+/**
+ * List of design-rule problems. Clicking an entry reports it through `onSelect`
+ * (clicking it again reports null, to clear the highlight).
+ */
+export class IssuePanel {
+    private element: HTMLElement;
+    private onSelect: (issue: DesignIssue | null) => void;
+    private selected: number | null = null;
+
+    constructor(element: HTMLElement, onSelect: (issue: DesignIssue | null) => void) {
+        this.element = element;
+        this.onSelect = onSelect;
+    }
+
+    render(issues: DesignIssue[]) {
+        this.element.innerHTML = '';
+        this.selected = null;
+
+        if (issues.length === 0) {
+            const ok = document.createElement('div');
+            ok.className = 'issue-none';
+            ok.innerText = 'No problems found.';
+            this.element.appendChild(ok);
+            return;
+        }
+
+        issues.forEach((issue, i) => {
+            const item = document.createElement('div');
+            item.className = `issue-item ${issue.severity}`;
+            item.innerText = issue.message;
+            item.title = issue.kind;
+            item.addEventListener('click', () => {
+                this.element.querySelectorAll('.issue-item.selected').forEach(el => el.classList.remove('selected'));
+                this.selected = this.selected === i ? null : i;
+                if (this.selected !== null) item.classList.add('selected');
+                this.onSelect(this.selected === null ? null : issue);
+            });
+            this.element.appendChild(item);
+        });
+    }
+}
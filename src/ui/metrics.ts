@@ -0,0 +1,79 @@
+import { GATE_TYPES, type MetricsReport } from '../core/metrics';
+import { DesignRuleChecker } from '../core/drc';
+
+/**
+ * Cost figures of the circuit, optionally next to an earlier design (e.g. the circuit
+ * synthesis replaced). The critical-path checkbox is reported through `onHighlight`.
+ */
+export class MetricsPanel {
+    private element: HTMLElement;
+    private onHighlight: (show: boolean) => void;
+    private onClearBaseline: () => void;
+    /** Whether the critical path is highlighted on the canvas */
+    showPath = false;
+
+    constructor(element: HTMLElement, onHighlight: (show: boolean) => void, onClearBaseline: () => void) {
+        this.element = element;
+        this.onHighlight = onHighlight;
+        this.onClearBaseline = onClearBaseline;
+    }
+
+    render(report: MetricsReport, baseline: { report: MetricsReport, title: string } | null) {
+        this.element.innerHTML = '';
+
+        const table = document.createElement('table');
+        table.className = 'metrics-table';
+        const row = (label: string, value: (r: MetricsReport) => string, className = '') => {
+            const tr = document.createElement('tr');
+            if (className) tr.className = className;
+            [label, value(report), ...(baseline ? [value(baseline.report)] : [])].forEach((text, i) => {
+                const cell = document.createElement(i === 0 ? 'th' : 'td');
+                cell.innerText = text;
+                tr.appendChild(cell);
+            });
+            table.appendChild(tr);
+        };
+
+        if (baseline) {
+            const head = document.createElement('tr');
+            ['', 'Now', baseline.title].forEach(text => {
+                const th = document.createElement('th');
+                th.innerText = text;
+                head.appendChild(th);
+            });
+            table.appendChild(head);
+        }
+        row('Gates', r => String(r.gateCount));
+        GATE_TYPES.filter(type => report.gates[type] || baseline?.report.gates[type])
+            .forEach(type => row(type, r => String(r.gates[type] ?? 0), 'metrics-detail'));
+        row('Gate inputs', r => String(r.gateInputs));
+        const maxDepth = (r: MetricsReport) => r.depths === null ? 'loop' : String(Math.max(0, ...r.depths.map(d => d.depth)));
+        row('Max depth', maxDepth);
+        report.depths?.forEach(({ output }) => row(output, r => {
+            const d = r.depths?.find(o => o.output === output);
+            return d ? String(d.depth) : '—';
+        }, 'metrics-detail'));
+        row('Max fan-out', r => r.fanout.node ? `${r.fanout.max} (${DesignRuleChecker.describe(r.fanout.node)})` : '0');
+        row('Avg fan-out', r => r.fanout.average.toFixed(2));
+        this.element.appendChild(table);
+
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = this.showPath;
+        checkbox.disabled = report.criticalPath.length === 0;
+        checkbox.addEventListener('change', () => {
+            this.showPath = checkbox.checked;
+            this.onHighlight(this.showPath);
+        });
+        label.append(checkbox, ' Highlight critical path');
+        this.element.appendChild(label);
+
+        if (baseline) {
+            const clear = document.createElement('button');
+            clear.innerText = 'Clear Comparison';
+            clear.addEventListener('click', () => this.onClearBaseline());
+            this.element.appendChild(clear);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Smallest box around the rectangles; a loop, as spreading thousands of them into Math.min overflows. */
+export function boundsOf(rects: Rect[]): { minX: number, minY: number, maxX: number, maxY: number } {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const r of rects) {
+        minX = Math.min(minX, r.x);
+        minY = Math.min(minY, r.y);
+        maxX = Math.max(maxX, r.x + r.width);
+        maxY = Math.max(maxY, r.y + r.height);
+    }
+    return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Overview of the whole circuit drawn on a small <canvas>.
+ * Shows every node as a box and the visible part of the canvas as a frame;
+ * clicking or dragging on it centres the view on that point.
+ */
+export class Minimap {
+    private canvas: HTMLCanvasElement;
+    private onNavigate: (x: number, y: number) => void;
+    /** Circuit area currently mapped onto the minimap */
+    private world: Rect = { x: 0, y: 0, width: 1, height: 1 };
+    private scale = 1;
+
+    private static PADDING = 40;
+
+    constructor(canvas: HTMLCanvasElement, onNavigate: (x: number, y: number) => void) {
+        this.canvas = canvas;
+        this.onNavigate = onNavigate;
+
+        const navigate = (e: MouseEvent) => {
+            const rect = this.canvas.getBoundingClientRect();
+            this.onNavigate(
+                this.world.x + (e.clientX - rect.left) / this.scale,
+                this.world.y + (e.clientY - rect.top) / this.scale
+            );
+        };
+
+        this.canvas.addEventListener('mousedown', (e) => {
+            e.stopPropagation();
+            navigate(e);
+            const onMove = (em: MouseEvent) => navigate(em);
+            const onUp = () => {
+                window.removeEventListener('mousemove', onMove);
+                window.removeEventListener('mouseup', onUp);
+            };
+            window.addEventListener('mousemove', onMove);
+            window.addEventListener('mouseup', onUp);
+        });
+    }
+
+    /**
+     * @param nodes Node boxes in canvas coordinates
+     * @param viewport Visible part of the canvas, in canvas coordinates
+     */
+    render(nodes: Rect[], viewport: Rect) {
+        const ctx = this.canvas.getContext('2d');
+        if (!ctx) return;
+
+        // Fit nodes and viewport together so the frame never leaves the map
+        const all = [...nodes, viewport];
+        const pad = Minimap.PADDING;
+        const bounds = boundsOf(all);
+        const minX = bounds.minX - pad;
+        const minY = bounds.minY - pad;
+        const maxX = bounds.maxX + pad;
+        const maxY = bounds.maxY + pad;
+        this.world = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+        this.scale = Math.min(this.canvas.width / this.world.width, this.canvas.height / this.world.height);
+
+        const map = (r: Rect): [number, number, number, number] => [
+            (r.x - minX) * this.scale, (r.y - minY) * this.scale, r.width * this.scale, r.height * this.scale
+        ];
+
+        ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        ctx.fillStyle = '#888';
+        nodes.forEach(r => ctx.fillRect(...map(r)));
+        ctx.strokeStyle = '#00f0ff';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(...map(viewport));
+    }
+}
@@ -1,3 +1,13 @@
+import { SynthesisEngine, type OutputFunction, type SynthesisOptions, type TargetValue } from '../core/synthesis';
+import { LogicMinimizer } from '../core/minimize';
+import { KarnaughMap } from '../core/kmap';
+import { DEFAULT_DELAYS, type NodeType } from '../core/engine';
+import type { EquivalenceResult } from '../core/equivalence';
+import type { TruthTable } from '../core/truthtable';
+import { FaultSimulator, type Fault, type FaultReport } from '../core/faults';
+import { parseTestVectors, TestVectorError } from '../core/testbench';
+import { BddLimitError } from '../core/bdd';
+
 
 export class ModalManager {
     private overlay: HTMLElement;
@@ -41,67 +51,124 @@ export class ModalManager {
 
     // --- Static Generators for Specific Modals ---
 
-    static generateTruthTableHTML(data: { inputs: Record<string, boolean>, outputs: Record<string, boolean>, inputLabels: Record<string, string> }[]): HTMLElement {
-        const wrapper = document.createElement('div');
+    /** Rows shown at once; larger tables are paged */
+    private static TRUTH_TABLE_PAGE = 256;
+    /** Largest table offered for export (2^20 rows) */
+    static MAX_EXPORT_INPUTS = 20;
 
-        // Headers
-        if (data.length === 0) {
+    /**
+     * Truth table, one page of rows at a time so tables with many inputs stay responsive.
+     * @param onExport Downloads the whole table in the chosen format
+     * @param onKarnaughMap Opens the table in the synthesis editor; the button is left out when not given
+     */
+    static generateTruthTableUI(table: TruthTable, onExport: (format: 'csv' | 'markdown') => void, onKarnaughMap?: () => void): HTMLElement {
+        const wrapper = document.createElement('div');
+        if (table.inputs.length === 0 || table.outputs.length === 0) {
             wrapper.innerHTML = "<h3>No inputs/outputs found to generate a table.</h3>";
             return wrapper;
         }
 
-        const firstRow = data[0];
-        const inputKeys = Object.keys(firstRow.inputs).sort();
-        const outputKeys = Object.keys(firstRow.outputs).sort();
+        const pageSize = ModalManager.TRUTH_TABLE_PAGE;
+        const pages = Math.ceil(table.rowCount / pageSize);
+        wrapper.innerHTML = `<h2>Truth Table</h2>
+      <p class="expr-help"></p>
+      <div class="control-row truth-table-tools">
+        <button id="btn-tt-csv">Export CSV</button>
+        <button id="btn-tt-md">Export Markdown</button>
+        <button id="btn-tt-kmap">K-Map</button>
+        <span class="truth-table-pager">
+          <button id="btn-tt-first">«</button>
+          <button id="btn-tt-prev">‹</button>
+          <span id="tt-page"></span>
+          <button id="btn-tt-next">›</button>
+          <button id="btn-tt-last">»</button>
+        </span>
+      </div>
+      `;
+        (wrapper.querySelector('.expr-help') as HTMLElement).innerText =
+            `${table.rowCount} rows. Columns are sorted by label; the first input is the most significant bit of the row number, as in synthesis.`;
+
+        const exportable = table.inputs.length <= ModalManager.MAX_EXPORT_INPUTS;
+        const csv = wrapper.querySelector('#btn-tt-csv') as HTMLButtonElement;
+        const markdown = wrapper.querySelector('#btn-tt-md') as HTMLButtonElement;
+        [csv, markdown].forEach(button => {
+            button.disabled = !exportable;
+            if (!exportable) button.title = `Export is limited to ${ModalManager.MAX_EXPORT_INPUTS} inputs.`;
+        });
+        csv.addEventListener('click', () => onExport('csv'));
+        markdown.addEventListener('click', () => onExport('markdown'));
+        const kmap = wrapper.querySelector('#btn-tt-kmap') as HTMLButtonElement;
+        if (onKarnaughMap) kmap.addEventListener('click', onKarnaughMap);
+        else kmap.remove();
+        const pager = wrapper.querySelector('.truth-table-pager') as HTMLElement;
+        if (pages <= 1) pager.style.display = 'none';
 
-        const table = document.createElement('table');
-        table.className = 'truth-table';
+        const htmlTable = document.createElement('table');
+        htmlTable.className = 'truth-table';
 
         // Head
         const thead = document.createElement('thead');
         const trHead = document.createElement('tr');
-        inputKeys.forEach(k => {
+        table.inputLabels.forEach(label => {
             const th = document.createElement('th');
-            // Use Label if available, else generic
-            const label = firstRow.inputLabels?.[k] || k.substring(0, 4);
             th.innerText = label;
             trHead.appendChild(th);
         });
-        outputKeys.forEach(() => {
+        table.outputLabels.forEach(label => {
             const th = document.createElement('th');
-            th.innerText = "OUT"; // Shorten
+            th.innerText = label && label !== 'OUTPUT' ? label : "OUT"; // Shorten
             th.classList.add('output-col');
             trHead.appendChild(th);
         });
         thead.appendChild(trHead);
-        table.appendChild(thead);
+        htmlTable.appendChild(thead);
 
-        // Body
+        // Body, re-rendered per page
         const tbody = document.createElement('tbody');
-        data.forEach(row => {
-            const tr = document.createElement('tr');
-            inputKeys.forEach(k => {
-                const td = document.createElement('td');
-                td.innerText = row.inputs[k] ? '1' : '0';
-                td.classList.add(row.inputs[k] ? 'val-1' : 'val-0');
-                tr.appendChild(td);
-            });
-            outputKeys.forEach(k => {
-                const td = document.createElement('td');
-                td.innerText = row.outputs[k] ? '1' : '0';
-                td.classList.add(row.outputs[k] ? 'val-1' : 'val-0');
-                td.classList.add('output-col');
-                tr.appendChild(td);
+        htmlTable.appendChild(tbody);
+        wrapper.appendChild(htmlTable);
+
+        let page = 0;
+        const render = (p: number) => {
+            page = Math.max(0, Math.min(pages - 1, p));
+            (wrapper.querySelector('#tt-page') as HTMLElement).innerText = `Page ${page + 1} of ${pages}`;
+            tbody.innerHTML = '';
+            table.rows(page * pageSize, pageSize).forEach(row => {
+                const tr = document.createElement('tr');
+                row.inputs.forEach(v => {
+                    const td = document.createElement('td');
+                    td.innerText = v ? '1' : '0';
+                    td.classList.add(v ? 'val-1' : 'val-0');
+                    tr.appendChild(td);
+                });
+                row.outputs.forEach(v => {
+                    const td = document.createElement('td');
+                    td.innerText = v === 'X' ? 'X' : v ? '1' : '0';
+                    td.classList.add(v === 'X' ? 'val-x' : v ? 'val-1' : 'val-0');
+                    td.classList.add('output-col');
+                    tr.appendChild(td);
+                });
+                tbody.appendChild(tr);
             });
-            tbody.appendChild(tr);
-        });
-        table.appendChild(tbody);
-        wrapper.appendChild(table);
+        };
+        wrapper.querySelector('#btn-tt-first')?.addEventListener('click', () => render(0));
+        wrapper.querySelector('#btn-tt-prev')?.addEventListener('click', () => render(page - 1));
+        wrapper.querySelector('#btn-tt-next')?.addEventListener('click', () => render(page + 1));
+        wrapper.querySelector('#btn-tt-last')?.addEventListener('click', () => render(pages - 1));
+        render(0);
 
         return wrapper;
     }
 
-    static generateSynthesisUI(onBuild: (inputCount: number, targets: boolean[]) => void): HTMLElement {
+    /** Group outlines of a Karnaugh map, one per chosen implicant (repeating past eight) */
+    private static KMAP_COLORS = ['#ffaa00', '#00ff88', '#ff5599', '#66aaff', '#ddff33', '#cc77ff', '#ff7744', '#33dddd'];
+
+    /**
+     * Synthesis specification, edited as a truth table or as a Karnaugh map of one output.
+     * @param initial Specification to start from, e.g. the current circuit's truth table; opens on the K-map
+     */
+    static generateSynthesisUI(onBuild: (inputCount: number, outputs: OutputFunction[], options: SynthesisOptions) => void,
+        initial?: { inputNames: string[], outputs: OutputFunction[] }): HTMLElement {
         const wrapper = document.createElement('div');
         wrapper.innerHTML = `<h2>Circuit Synthesis</h2>
       <div class="control-row">
@@ -110,17 +177,76 @@ export class ModalManager {
             <option value="2">2 (A, B)</option>
             <option value="3">3 (A, B, C)</option>
             <option value="4">4 (A, B, C, D)</option>
+            <option value="5">5 (A–E)</option>
+            <option value="6">6 (A–F)</option>
         </select>
+        <button id="btn-add-output" style="margin-left: 10px;">+ Output</button>
+      </div>
+      <div class="control-row">
+        <label><input type="checkbox" id="syn-minimize" checked> Minimize (Quine–McCluskey)</label>
+      </div>
+      <div class="control-row view-toggle">
+        <button id="btn-syn-table">Truth Table</button>
+        <button id="btn-syn-kmap">K-Map</button>
+        <select id="syn-kmap-output" style="margin-left: 10px;"></select>
       </div>
       <div id="syn-table-container"></div>
+      <div id="syn-summary" class="syn-summary"></div>
       <button id="btn-build-syn" style="margin-top: 15px;">Build Circuit</button>
       `;
 
         const select = wrapper.querySelector('#syn-inputs') as HTMLSelectElement;
+        const minimize = wrapper.querySelector('#syn-minimize') as HTMLInputElement;
+        const mapOutput = wrapper.querySelector('#syn-kmap-output') as HTMLSelectElement;
         const container = wrapper.querySelector('#syn-table-container') as HTMLElement;
+        const summary = wrapper.querySelector('#syn-summary') as HTMLElement;
+
+        // Specification state; the table or map is re-rendered from it
+        let names = initial ? [...initial.inputNames] : SynthesisEngine.variableNames(parseInt(select.value));
+        let view: 'table' | 'kmap' = initial ? 'kmap' : 'table';
+        const outputs: OutputFunction[] = initial ? initial.outputs.map(o => ({ name: o.name, targets: [...o.targets] })) : [];
+        if (initial) select.value = String(names.length);
+        const blankTargets = (): TargetValue[] => new Array(1 << parseInt(select.value)).fill(false);
+        const addOutput = () => {
+            let n = outputs.length;
+            while (outputs.some(o => o.name === `F${n}`)) n++;
+            outputs.push({ name: outputs.length === 0 ? 'OUT' : `F${n}`, targets: blankTargets() });
+        };
+        const options = (): SynthesisOptions => ({ minimize: minimize.checked, inputNames: names });
+
+        const updateSummary = () => {
+            const info = SynthesisEngine.summarize(parseInt(select.value), outputs, options());
+            summary.innerHTML = '';
+            info.expressions.forEach(({ name, expression }) => {
+                const expr = document.createElement('div');
+                expr.className = 'syn-expression';
+                expr.innerText = `${name} = ${expression}`;
+                summary.appendChild(expr);
+            });
+            const gates = document.createElement('div');
+            gates.innerText = `Gates: ${info.gatesBefore} unminimized → ${info.gatesAfter} minimized`;
+            summary.appendChild(gates);
+        };
+
+        // Outputs (Editable): 0 -> 1 -> X (don't care) -> 0
+        const editableCell = (fn: OutputFunction, row: number, className: string, onChange: () => void): HTMLElement => {
+            const td = document.createElement('td');
+            const show = () => {
+                const text = fn.targets[row] === 'X' ? 'X' : fn.targets[row] ? '1' : '0';
+                td.innerText = text;
+                td.className = `${className} val-${text.toLowerCase()}`;
+            };
+            td.onclick = () => {
+                const current = fn.targets[row];
+                fn.targets[row] = current === 'X' ? false : current ? 'X' : true;
+                show();
+                onChange();
+            };
+            show();
+            return td;
+        };
 
         const renderTable = () => {
-            container.innerHTML = '';
             const count = parseInt(select.value);
             const rows = 1 << count;
 
@@ -131,12 +257,36 @@ export class ModalManager {
             const trH = document.createElement('tr');
             for (let i = 0; i < count; i++) {
                 const th = document.createElement('th');
-                th.innerText = String.fromCharCode(65 + i);
+                th.innerText = names[i];
                 trH.appendChild(th);
             }
-            const thOut = document.createElement('th');
-            thOut.innerText = "OUT";
-            trH.appendChild(thOut);
+            outputs.forEach((fn, oIdx) => {
+                const thOut = document.createElement('th');
+                thOut.classList.add('output-col');
+
+                const name = document.createElement('input');
+                name.className = 'output-name';
+                name.value = fn.name;
+                name.size = 4;
+                name.addEventListener('input', () => {
+                    fn.name = name.value.trim() || `F${oIdx}`;
+                    updateSummary();
+                });
+                thOut.appendChild(name);
+
+                if (outputs.length > 1) {
+                    const remove = document.createElement('span');
+                    remove.className = 'remove-output';
+                    remove.innerText = '×';
+                    remove.title = 'Remove output';
+                    remove.onclick = () => {
+                        outputs.splice(oIdx, 1);
+                        render();
+                    };
+                    thOut.appendChild(remove);
+                }
+                trH.appendChild(thOut);
+            });
             table.appendChild(trH);
 
             // Rows
@@ -153,30 +303,357 @@ export class ModalManager {
                     td.classList.add(val ? 'val-1' : 'val-0');
                     tr.appendChild(td);
                 }
-                // Output (Editable)
-                const tdOut = document.createElement('td');
-                tdOut.className = 'editable-cell val-0';
-                tdOut.innerText = '0';
-                tdOut.onclick = () => {
-                    const updated = tdOut.innerText === '0' ? '1' : '0';
-                    tdOut.innerText = updated;
-                    tdOut.className = `editable-cell val-${updated}`;
-                };
-                tr.appendChild(tdOut);
+                outputs.forEach(fn => tr.appendChild(editableCell(fn, i, 'editable-cell output-col', updateSummary)));
                 table.appendChild(tr);
             }
             container.appendChild(table);
         };
 
-        select.addEventListener('change', renderTable);
-        renderTable(); // Initial
+        // One output at a time; the chosen implicants are outlined in their own colours
+        const renderMap = () => {
+            const map = new KarnaughMap(names.length);
+            const index = Math.min(parseInt(mapOutput.value) || 0, outputs.length - 1);
+            const fn = outputs[index];
+            const cover = SynthesisEngine.computeCovers(names.length, outputs, minimize.checked)[index];
+            const colours = ModalManager.KMAP_COLORS;
+
+            const table = document.createElement('table');
+            table.className = 'truth-table kmap';
+            const trH = document.createElement('tr');
+            const corner = document.createElement('th');
+            corner.innerText = `${names.slice(0, map.rowBits).join(' ')} \\ ${names.slice(map.rowBits).join(' ')}`;
+            trH.appendChild(corner);
+            map.colCodes.forEach((_, col) => {
+                const th = document.createElement('th');
+                th.innerText = map.colLabel(col);
+                trH.appendChild(th);
+            });
+            table.appendChild(trH);
+
+            map.rowCodes.forEach((_, row) => {
+                const tr = document.createElement('tr');
+                const th = document.createElement('th');
+                th.innerText = map.rowLabel(row);
+                tr.appendChild(th);
+                map.colCodes.forEach((_, col) => {
+                    const td = editableCell(fn, map.minterm(row, col), 'editable-cell', render);
+                    const groups = map.groupsAt(cover, row, col);
+                    // Nested rings, one per group containing the cell
+                    td.style.boxShadow = groups.map((g, k) => `inset 0 0 0 ${3 * (k + 1)}px ${colours[g % colours.length]}`).join(', ');
+                    td.title = `Row ${map.minterm(row, col)}`;
+                    tr.appendChild(td);
+                });
+                table.appendChild(tr);
+            });
+            container.appendChild(table);
+
+            const legend = document.createElement('div');
+            legend.className = 'kmap-legend';
+            cover.forEach((imp, g) => {
+                const item = document.createElement('span');
+                item.className = 'kmap-group';
+                item.style.borderColor = colours[g % colours.length];
+                item.innerText = LogicMinimizer.termToString(imp, names);
+                legend.appendChild(item);
+            });
+            if (cover.length === 0) legend.innerText = `${fn.name} is never 1.`;
+            container.appendChild(legend);
+        };
+
+        const render = () => {
+            container.innerHTML = '';
+            const selected = mapOutput.value;
+            mapOutput.innerHTML = '';
+            outputs.forEach((fn, i) => mapOutput.add(new Option(fn.name, String(i))));
+            mapOutput.value = parseInt(selected) < outputs.length ? selected : '0';
+            mapOutput.style.display = view === 'kmap' && outputs.length > 1 ? '' : 'none';
+            wrapper.querySelector('#btn-syn-table')?.classList.toggle('active', view === 'table');
+            wrapper.querySelector('#btn-syn-kmap')?.classList.toggle('active', view === 'kmap');
+
+            if (view === 'kmap') renderMap();
+            else renderTable();
+            updateSummary();
+        };
+
+        select.addEventListener('change', () => {
+            names = SynthesisEngine.variableNames(parseInt(select.value));
+            outputs.forEach(fn => { fn.targets = blankTargets(); });
+            render();
+        });
+        minimize.addEventListener('change', () => render());
+        mapOutput.addEventListener('change', () => render());
+        wrapper.querySelector('#btn-syn-table')?.addEventListener('click', () => { view = 'table'; render(); });
+        wrapper.querySelector('#btn-syn-kmap')?.addEventListener('click', () => { view = 'kmap'; render(); });
+        wrapper.querySelector('#btn-add-output')?.addEventListener('click', () => {
+            addOutput();
+            render();
+        });
+        if (outputs.length === 0) addOutput();
+        render(); // Initial
 
         const btn = wrapper.querySelector('#btn-build-syn');
         btn?.addEventListener('click', () => {
-            const cells = container.querySelectorAll('.editable-cell');
-            const targets: boolean[] = [];
-            cells.forEach(c => targets.push((c as HTMLElement).innerText === '1'));
-            onBuild(parseInt(select.value), targets);
+            onBuild(parseInt(select.value), outputs, options());
+        });
+
+        return wrapper;
+    }
+
+    /**
+     * Expression entry plus the expressions extracted from the current circuit.
+     * @param onBuild Returns an error message to show, or null on success
+     */
+    static generateExpressionUI(extracted: { name: string, expression: string }[] | string, onBuild: (source: string) => string | null): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.innerHTML = `<h2>Boolean Expressions</h2>
+      <div class="control-row">
+        <textarea id="expr-source" class="expr-source" rows="5" spellcheck="false" placeholder="F = (A & !B) | C ^ D"></textarea>
+        <div class="expr-help">Operators: NOT <code>! ~ '</code>, AND <code>&amp; * ·</code> or juxtaposition, XOR <code>^</code>, OR <code>| +</code>. One output per line.</div>
+        <div id="expr-error" class="expr-error"></div>
+      </div>
+      <button id="btn-build-expr">Build Circuit</button>
+      <h3>From current circuit</h3>
+      <div id="expr-extracted" class="syn-summary"></div>
+      `;
+
+        const source = wrapper.querySelector('#expr-source') as HTMLTextAreaElement;
+        const error = wrapper.querySelector('#expr-error') as HTMLElement;
+        const list = wrapper.querySelector('#expr-extracted') as HTMLElement;
+
+        if (typeof extracted === 'string') {
+            list.innerText = extracted;
+        } else if (extracted.length === 0) {
+            list.innerText = 'No outputs in the current circuit.';
+        } else {
+            extracted.forEach(({ name, expression }) => {
+                const row = document.createElement('div');
+                row.className = 'syn-expression';
+                row.innerText = `${name} = ${expression}`;
+                list.appendChild(row);
+            });
+            // Start from the current circuit so it can be edited as text
+            source.value = extracted.map(e => `${e.name} = ${e.expression}`).join('\n');
+        }
+
+        wrapper.querySelector('#btn-build-expr')?.addEventListener('click', () => {
+            error.innerText = onBuild(source.value) ?? '';
+        });
+
+        return wrapper;
+    }
+
+    /**
+     * Propagation delay per gate type, for timing simulation.
+     * @param onApply Receives the delays that differ from the defaults
+     */
+    static generateDelaysUI(delays: Partial<Record<NodeType, number>>, onApply: (delays: Partial<Record<NodeType, number>>) => void): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.innerHTML = `<h2>Gate Delays</h2>
+      <p class="expr-help">In simulated time units; used by Run / Step.</p>
+      <table class="truth-table delays-table"><tbody></tbody></table>
+      <button id="btn-delays-defaults" style="margin-top: 15px; margin-right: 10px;">Defaults</button>
+      <button id="btn-delays-apply" style="margin-top: 15px;">Apply</button>
+      `;
+
+        const types: NodeType[] = ['NOT', 'BUFFER', 'AND', 'OR', 'NAND', 'NOR', 'XOR', 'XNOR'];
+        const tbody = wrapper.querySelector('tbody') as HTMLElement;
+        const fields = new Map<NodeType, HTMLInputElement>();
+        types.forEach(type => {
+            const tr = document.createElement('tr');
+            const th = document.createElement('th');
+            th.innerText = type;
+            const td = document.createElement('td');
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.min = '0';
+            input.value = String(delays[type] ?? DEFAULT_DELAYS[type]);
+            td.appendChild(input);
+            tr.append(th, td);
+            tbody.appendChild(tr);
+            fields.set(type, input);
+        });
+
+        wrapper.querySelector('#btn-delays-defaults')?.addEventListener('click', () => {
+            fields.forEach((input, type) => { input.value = String(DEFAULT_DELAYS[type]); });
+        });
+        wrapper.querySelector('#btn-delays-apply')?.addEventListener('click', () => {
+            const result: Partial<Record<NodeType, number>> = {};
+            fields.forEach((input, type) => {
+                const value = parseFloat(input.value);
+                if (Number.isFinite(value) && value >= 0 && value !== DEFAULT_DELAYS[type]) result[type] = value;
+            });
+            onApply(result);
+        });
+
+        return wrapper;
+    }
+
+    /**
+     * Verdict of an equivalence check against another circuit.
+     * @param onApply Sets the counterexample's inputs on the canvas
+     */
+    static generateEquivalenceUI(result: EquivalenceResult, otherName: string, onApply: (inputs: Record<string, boolean>) => void): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.innerHTML = `<h2>Equivalence Check</h2>
+      <p class="expr-help">Current circuit compared with <b></b>; inputs and outputs are matched by label.</p>
+      <div id="equiv-verdict" class="syn-expression"></div>
+      <div id="equiv-details" class="syn-summary"></div>
+      `;
+        (wrapper.querySelector('b') as HTMLElement).innerText = otherName;
+        const verdict = wrapper.querySelector('#equiv-verdict') as HTMLElement;
+        const details = wrapper.querySelector('#equiv-details') as HTMLElement;
+
+        const line = (text: string) => {
+            const div = document.createElement('div');
+            div.innerText = text;
+            details.appendChild(div);
+            return div;
+        };
+
+        verdict.innerText = result.equivalent
+            ? `Equivalent: all ${result.compared.length} outputs compute the same function.`
+            : 'Not equivalent.';
+        verdict.classList.toggle('equiv-different', !result.equivalent);
+        if (result.onlyLeft.length > 0) line(`Outputs only in the current circuit: ${result.onlyLeft.join(', ')}`);
+        if (result.onlyRight.length > 0) line(`Outputs only in ${otherName}: ${result.onlyRight.join(', ')}`);
+
+        const cex = result.counterexample;
+        if (cex) {
+            const bit = (v: boolean) => v ? '1' : '0';
+            line(`Output ${cex.output} differs: ${bit(cex.left)} here, ${bit(cex.right)} in ${otherName}, for`);
+            line(Object.entries(cex.inputs).map(([label, v]) => `${label}=${bit(v)}`).join('  ') || '(no inputs)').className = 'syn-expression';
+
+            const apply = document.createElement('button');
+            apply.innerText = 'Apply to Canvas';
+            apply.style.marginTop = '15px';
+            apply.addEventListener('click', () => onApply(cex.inputs));
+            wrapper.appendChild(apply);
+        }
+
+        return wrapper;
+    }
+
+    /** Most inputs for which the fault analysis offers all 2^N vectors */
+    private static MAX_EXHAUSTIVE_INPUTS = 12;
+
+    /**
+     * Stuck-at fault analysis: pick a vector set, then see coverage, what each vector
+     * detects and which faults stay undetected.
+     * @param onMark Marks faults on the canvas (an empty list clears the marks)
+     * @param onApply Sets a vector's inputs on the canvas
+     */
+    static generateFaultUI(simulator: FaultSimulator, onMark: (faults: Fault[]) => void, onApply: (inputs: Record<string, boolean>) => void): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.innerHTML = `<h2>Fault Coverage</h2>
+      <p class="expr-help">Single stuck-at-0 / stuck-at-1 faults on every node output; a vector detects a fault when some output differs from the fault-free circuit.</p>
+      <div class="control-row">
+        <button id="btn-fault-all">All Inputs</button>
+        <button id="btn-fault-load">Load Vectors…</button>
+        <button id="btn-fault-generate">Generate Minimal Set</button>
+        <input type="file" id="file-fault-vectors" accept=".txt,.tv,text/plain" style="display: none;">
+      </div>
+      <div id="fault-error" class="expr-error"></div>
+      <div id="fault-report" class="syn-summary"></div>
+      `;
+        const error = wrapper.querySelector('#fault-error') as HTMLElement;
+        const report = wrapper.querySelector('#fault-report') as HTMLElement;
+        const fileInput = wrapper.querySelector('#file-fault-vectors') as HTMLInputElement;
+        const inputCount = simulator.inputs.length;
+        const labels = simulator.inputs.map(n => n.label);
+
+        const all = wrapper.querySelector('#btn-fault-all') as HTMLButtonElement;
+        if (inputCount > ModalManager.MAX_EXHAUSTIVE_INPUTS) {
+            all.disabled = true;
+            all.title = `Only offered up to ${ModalManager.MAX_EXHAUSTIVE_INPUTS} inputs.`;
+        }
+
+        const bits = (vector: boolean[]) => vector.map(v => v ? '1' : '0').join('');
+        const show = (result: FaultReport, source: string) => {
+            report.innerHTML = '';
+            const undetected = result.faults.filter((_, f) => !result.detected[f]);
+            const redundant = result.redundant ? `${result.redundant.filter(r => r).length} redundant` : 'redundancy unknown (too large for BDDs)';
+
+            const summary = document.createElement('div');
+            summary.className = 'syn-expression';
+            summary.innerText = `${source}: ${result.vectors.length} vectors detect ${result.faults.length - undetected.length} of ${result.faults.length} faults `
+                + `(${(result.coverage * 100).toFixed(1)}% coverage); ${redundant}.`;
+            report.appendChild(summary);
+
+            const markUndetected = document.createElement('button');
+            markUndetected.innerText = 'Mark Undetected on Canvas';
+            markUndetected.disabled = undetected.length === 0;
+            markUndetected.addEventListener('click', () => onMark(undetected));
+            const clear = document.createElement('button');
+            clear.innerText = 'Clear Marks';
+            clear.style.marginLeft = '10px';
+            clear.addEventListener('click', () => onMark([]));
+            const buttons = document.createElement('div');
+            buttons.className = 'control-row';
+            buttons.style.marginTop = '10px';
+            buttons.append(markUndetected, clear);
+            report.appendChild(buttons);
+
+            // Vectors and what each one detects; clicking a row applies it
+            const vectors = document.createElement('table');
+            vectors.className = 'truth-table fault-table';
+            const head = document.createElement('tr');
+            [labels.join(' ') || '(no inputs)', 'New', 'Detects'].forEach(text => {
+                const th = document.createElement('th');
+                th.innerText = text;
+                head.appendChild(th);
+            });
+            vectors.appendChild(head);
+            const seen = new Set<number>();
+            result.vectors.forEach((vector, v) => {
+                const tr = document.createElement('tr');
+                tr.title = 'Apply to canvas';
+                tr.addEventListener('click', () => onApply(Object.fromEntries(labels.map((l, i) => [l, vector[i]]))));
+                const fresh = result.detects[v].filter(f => !seen.has(f));
+                fresh.forEach(f => seen.add(f));
+                [bits(vector), String(fresh.length), result.detects[v].map(f => FaultSimulator.describe(result.faults[f])).join(', ') || '—']
+                    .forEach(text => {
+                        const td = document.createElement('td');
+                        td.innerText = text;
+                        tr.appendChild(td);
+                    });
+                vectors.appendChild(tr);
+            });
+            report.appendChild(vectors);
+
+            // Faults no vector detects; clicking one marks it
+            const heading = document.createElement('h3');
+            heading.innerText = undetected.length === 0 ? 'Every fault is detected.' : 'Undetected faults';
+            report.appendChild(heading);
+            result.faults.forEach((fault, f) => {
+                if (result.detected[f]) return;
+                const item = document.createElement('div');
+                item.className = 'fault-item';
+                item.innerText = `${FaultSimulator.describe(fault)}${result.redundant?.[f] ? ' — redundant, no vector can detect it' : ''}`;
+                item.addEventListener('click', () => onMark([fault]));
+                report.appendChild(item);
+            });
+        };
+
+        const run = (source: string, vectors: () => boolean[][]) => {
+            error.innerText = '';
+            try {
+                show(simulator.simulate(vectors()), source);
+            } catch (e) {
+                if (!(e instanceof BddLimitError) && !(e instanceof TestVectorError)) throw e;
+                error.innerText = e.message;
+            }
+        };
+
+        all.addEventListener('click', () => run('All inputs', () =>
+            Array.from({ length: 1 << inputCount }, (_, r) => labels.map((_, i) => ((r >> (inputCount - 1 - i)) & 1) === 1))));
+        wrapper.querySelector('#btn-fault-generate')?.addEventListener('click', () => run('Generated set', () => simulator.generateTests()));
+        wrapper.querySelector('#btn-fault-load')?.addEventListener('click', () => fileInput.click());
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            fileInput.value = '';
+            if (!file) return;
+            const source = await file.text();
+            run(file.name, () => simulator.vectorsFrom(parseTestVectors(source)));
         });
 
         return wrapper;
@@ -0,0 +1,165 @@
+import type { TraceSample } from '../core/timing';
+
+export interface WaveformSignal {
+    label: string;
+    samples: readonly TraceSample[];
+}
+
+/**
+ * Timing diagram of recorded signals, drawn on a <canvas>.
+ * Click places cursor A and Shift+click cursor B, both snapping to a nearby edge;
+ * the readout shows the time between them. The wheel zooms the time axis.
+ */
+export class WaveformView {
+    private canvas: HTMLCanvasElement;
+    private readout: HTMLElement;
+    private signals: WaveformSignal[] = [];
+    private now = 0;
+    /** Length of the visible stretch of time, which ends at the current time */
+    private span = 100;
+    private cursorA: number | null = null;
+    private cursorB: number | null = null;
+
+    private static LABEL_WIDTH = 90;
+    private static ROW_HEIGHT = 28;
+    private static AXIS_HEIGHT = 20;
+    /** Distance in pixels within which a cursor jumps to an edge */
+    private static SNAP = 6;
+
+    constructor(canvas: HTMLCanvasElement, readout: HTMLElement) {
+        this.canvas = canvas;
+        this.readout = readout;
+
+        this.canvas.addEventListener('mousedown', (e) => {
+            const time = this.timeAt(e);
+            if (time === null) return;
+            if (e.shiftKey) this.cursorB = time;
+            else this.cursorA = time;
+            this.draw();
+        });
+        this.canvas.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            this.span = Math.min(100000, Math.max(10, this.span * Math.pow(1.0015, e.deltaY)));
+            this.draw();
+        }, { passive: false });
+    }
+
+    render(signals: WaveformSignal[], now: number) {
+        this.signals = signals;
+        this.now = now;
+        this.draw();
+    }
+
+    clear() {
+        this.cursorA = null;
+        this.cursorB = null;
+        this.render([], 0);
+    }
+
+    private get start(): number {
+        return Math.max(0, this.now - this.span);
+    }
+
+    private x(time: number): number {
+        const plot = this.canvas.width - WaveformView.LABEL_WIDTH;
+        return WaveformView.LABEL_WIDTH + (time - this.start) / this.span * plot;
+    }
+
+    /** Time under the mouse, snapped to the closest edge nearby; null over the labels. */
+    private timeAt(e: MouseEvent): number | null {
+        const rect = this.canvas.getBoundingClientRect();
+        const px = e.clientX - rect.left;
+        if (px < WaveformView.LABEL_WIDTH) return null;
+
+        let best: number | null = null;
+        let bestDistance = WaveformView.SNAP;
+        this.signals.forEach(signal => signal.samples.forEach(sample => {
+            const distance = Math.abs(this.x(sample.time) - px);
+            if (distance <= bestDistance) {
+                best = sample.time;
+                bestDistance = distance;
+            }
+        }));
+        const plot = this.canvas.width - WaveformView.LABEL_WIDTH;
+        return best ?? this.start + (px - WaveformView.LABEL_WIDTH) / plot * this.span;
+    }
+
+    private draw() {
+        const ctx = this.canvas.getContext('2d');
+        if (!ctx) return;
+        const rowHeight = WaveformView.ROW_HEIGHT;
+        this.canvas.width = this.canvas.clientWidth || 600;
+        this.canvas.height = Math.max(1, this.signals.length) * rowHeight + WaveformView.AXIS_HEIGHT;
+        const end = this.start + this.span;
+        const right = this.x(end);
+
+        ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        ctx.font = '12px sans-serif';
+        ctx.textBaseline = 'middle';
+
+        this.signals.forEach((signal, row) => {
+            const high = row * rowHeight + 6;
+            const low = (row + 1) * rowHeight - 6;
+            const mid = (high + low) / 2;
+
+            ctx.fillStyle = '#aaa';
+            ctx.fillText(signal.label, 6, mid, WaveformView.LABEL_WIDTH - 12);
+
+            let previousY: number | null = null;
+            signal.samples.forEach((sample, i) => {
+                const until = signal.samples[i + 1]?.time ?? this.now;
+                if (until < this.start || sample.time > end) return;
+                const x1 = Math.max(this.x(sample.time), WaveformView.LABEL_WIDTH);
+                const x2 = Math.min(this.x(until), right);
+
+                if (sample.level === 'X') {
+                    ctx.fillStyle = 'rgba(255, 85, 85, 0.35)';
+                    ctx.fillRect(x1, high, x2 - x1, low - high);
+                    previousY = null;
+                    return;
+                }
+                const y = sample.level === '1' ? high : sample.level === '0' ? low : mid;
+                ctx.strokeStyle = sample.level === 'Z' ? '#8888ff' : '#00f0ff';
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                ctx.moveTo(x1, previousY ?? y);
+                ctx.lineTo(x1, y);
+                ctx.lineTo(x2, y);
+                ctx.stroke();
+                previousY = y;
+            });
+        });
+
+        // Time axis with round tick steps (1, 2 or 5 times a power of ten)
+        const axisTop = this.canvas.height - WaveformView.AXIS_HEIGHT;
+        const rough = this.span / 8;
+        const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+        const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough)!;
+        ctx.fillStyle = '#666';
+        ctx.strokeStyle = '#333';
+        ctx.lineWidth = 1;
+        for (let t = Math.ceil(this.start / step) * step; t <= end; t += step) {
+            const x = this.x(t);
+            ctx.beginPath();
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x, axisTop);
+            ctx.stroke();
+            ctx.fillText(String(Math.round(t * 100) / 100), x + 2, axisTop + WaveformView.AXIS_HEIGHT / 2);
+        }
+
+        const drawCursor = (time: number | null, color: string) => {
+            if (time === null || time < this.start || time > end) return;
+            ctx.strokeStyle = color;
+            ctx.beginPath();
+            ctx.moveTo(this.x(time), 0);
+            ctx.lineTo(this.x(time), axisTop);
+            ctx.stroke();
+        };
+        drawCursor(this.cursorA, '#00ff88');
+        drawCursor(this.cursorB, '#ffaa00');
+
+        const format = (t: number | null) => t === null ? '–' : String(Math.round(t * 100) / 100);
+        const delta = this.cursorA !== null && this.cursorB !== null ? format(this.cursorB - this.cursorA) : '–';
+        this.readout.innerText = `t = ${format(this.now)}   A = ${format(this.cursorA)}   B = ${format(this.cursorB)}   B − A = ${delta}`;
+    }
+}